@@ -1,10 +1,23 @@
 import React, { useState, useEffect } from 'react';
+import RulesPanel from './RulesPanel';
+import DomainListsPanel from './DomainListsPanel';
+import PrivateNetworkPanel from './PrivateNetworkPanel';
+import NetworkPanel from './NetworkPanel';
+import CachePanel from './CachePanel';
 
 interface AIStatus {
   summarizer: string;
   languageModel: string;
 }
 
+interface RiskThresholds {
+  amber: number;
+  red: number;
+}
+
+// Keep in sync with DEFAULT_RISK_THRESHOLDS in background.ts
+const DEFAULT_RISK_THRESHOLDS: RiskThresholds = { amber: 20, red: 60 };
+
 const App: React.FC = () => {
   const [isEnabled, setIsEnabled] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -12,7 +25,8 @@ const App: React.FC = () => {
   const [summarizerProgress, setSummarizerProgress] = useState(0);
   const [languageModelProgress, setLanguageModelProgress] = useState(0);
   const [showWarning, setShowWarning] = useState(false);
-  const [cacheCleared, setCacheCleared] = useState(false);
+  const [riskThresholds, setRiskThresholds] = useState<RiskThresholds>(DEFAULT_RISK_THRESHOLDS);
+  const [thresholdError, setThresholdError] = useState('');
 
   useEffect(() => {
     // Load saved state
@@ -27,6 +41,14 @@ const App: React.FC = () => {
       setIsLoading(false);
     });
     
+    chrome.storage.local.get(['riskThresholds'], (result) => {
+      const stored = { ...DEFAULT_RISK_THRESHOLDS, ...result.riskThresholds };
+      // Show what background.ts actually uses, which is the defaults for invalid values
+      if (stored.amber >= 1 && stored.amber < stored.red) {
+        setRiskThresholds(stored);
+      }
+    });
+    
     // Check AI availability
     chrome.runtime.sendMessage({ type: 'getAIStatus' }, (response) => {
       if (response) {
@@ -87,6 +109,23 @@ const App: React.FC = () => {
     });
   };
   
+  // background.ts falls back to the defaults for anything outside 1 <= amber < red
+  const updateRiskThreshold = (level: keyof RiskThresholds, value: number) => {
+    if (Number.isNaN(value)) return;
+    const next = { ...riskThresholds, [level]: value };
+    if (next.amber < 1) {
+      setThresholdError('Caution must start at a score of 1 or more');
+      return;
+    }
+    if (next.amber >= next.red) {
+      setThresholdError('Caution must start below the unsafe score');
+      return;
+    }
+    setThresholdError('');
+    setRiskThresholds(next);
+    chrome.storage.local.set({ riskThresholds: next });
+  };
+  
   const handleDownloadSummarizer = () => {
     setSummarizerProgress(0);
     setAiStatus(prev => ({ ...prev, summarizer: 'downloading' }));
@@ -253,6 +292,38 @@ const App: React.FC = () => {
           </p>
         </div>
         
+        <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+          <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+            Risk Scoring
+          </h2>
+          {([
+            ['amber', 'Caution at score'],
+            ['red', 'Unsafe at score'],
+          ] as [keyof RiskThresholds, string][]).map(([level, label]) => (
+            <div key={level} className="flex items-center justify-between py-1">
+              <span style={{ fontSize: '12px', fontWeight: 600 }}>{label}</span>
+              <input
+                type="number"
+                min={1}
+                value={riskThresholds[level]}
+                onChange={(e) => updateRiskThreshold(level, parseInt(e.target.value, 10))}
+                style={{ width: '64px', padding: '4px 6px', fontSize: '11px', background: 'var(--bg)', color: 'var(--text)', border: '1px solid var(--line)', borderRadius: '6px' }}
+              />
+            </div>
+          ))}
+          <p style={{ fontSize: '10px', color: thresholdError ? 'var(--danger)' : 'var(--text-weak)', marginTop: '8px', lineHeight: '1.4' }}>
+            {thresholdError || "Each warning sign adds to a link's score. Lower numbers flag links sooner."}
+          </p>
+        </div>
+        
+        <DomainListsPanel />
+        
+        <RulesPanel />
+        
+        <PrivateNetworkPanel />
+        
+        <NetworkPanel />
+        
         <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
           <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
             Test Website
@@ -271,34 +342,7 @@ const App: React.FC = () => {
           </p>
         </div>
         
-        <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
-          <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
-            Cache Management
-          </h2>
-          <button
-            onClick={() => {
-              chrome.runtime.sendMessage({ type: 'clearCache' }, (response) => {
-                if (response?.success) {
-                  setCacheCleared(true);
-                  setTimeout(() => setCacheCleared(false), 3000);
-                }
-              });
-            }}
-            className="w-full px-4 py-2.5 rounded-lg hover:opacity-90 transition-all"
-            style={{ fontSize: '11px', fontWeight: 700, border: '1px solid var(--line)', cursor: 'pointer', background: 'var(--bg)', color: 'var(--text)', letterSpacing: '0.05em' }}
-          >
-            CLEAR CACHE
-          </button>
-          {cacheCleared ? (
-            <p style={{ fontSize: '11px', color: 'var(--accent)', marginTop: '8px', lineHeight: '1.4', fontWeight: 600 }}>
-              ✓ Cache cleared successfully
-            </p>
-          ) : (
-            <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginTop: '8px', lineHeight: '1.4' }}>
-              Clear all cached preview data to free up storage space.
-            </p>
-          )}
-        </div>
+        <CachePanel />
       </div>
     </div>
   );
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+
+// Mirrors CacheStats in cacheStore.ts
+interface CacheStats {
+  entries: number;
+  bytes: number;
+  budget: number;
+  caches: Record<string, { entries: number; bytes: number }>;
+}
+
+// One row of the listCacheEntries reply
+interface CacheListEntry {
+  cache: string;
+  key: string;
+  site: string;
+  url: string;
+  type: string;
+  size: number;
+  storedAt: number;
+}
+
+// background.ts reads the same key; keep the default in sync with DEFAULT_CACHE_BUDGET there
+const STORAGE_KEY = 'cacheBudget';
+const DEFAULT_CACHE_BUDGET = 50 * 1024 * 1024;
+
+const BUDGET_OPTIONS_MB = [10, 25, 50, 100, 250];
+const MAX_VISIBLE_SITES = 20;
+
+const CACHE_LABELS: Record<string, string> = {
+  title: 'Titles',
+  network: 'Link checks',
+  preview: 'Previews',
+  failure: 'Recent failures',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '5px 8px',
+  fontSize: '11px',
+  background: 'var(--bg)',
+  color: 'var(--text)',
+  border: '1px solid var(--line)',
+  borderRadius: '6px',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// Entries arrive most recently used first; sites keep the order of their newest entry
+function groupBySite(entries: CacheListEntry[]): [string, CacheListEntry[]][] {
+  const groups = new Map<string, CacheListEntry[]>();
+  for (const entry of entries) {
+    const group = groups.get(entry.site);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(entry.site, [entry]);
+    }
+  }
+  return Array.from(groups.entries());
+}
+
+const CachePanel: React.FC = () => {
+  const [budget, setBudget] = useState(DEFAULT_CACHE_BUDGET);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [entries, setEntries] = useState<CacheListEntry[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [transferStatus, setTransferStatus] = useState('');
+
+  const loadStats = () => {
+    chrome.runtime.sendMessage({ type: 'getCacheStats' }, (response) => {
+      if (response?.success) {
+        setStats(response.stats);
+      }
+    });
+  };
+
+  const loadEntries = () => {
+    chrome.runtime.sendMessage({ type: 'listCacheEntries' }, (response) => {
+      if (response?.success) {
+        setEntries(response.entries);
+      }
+    });
+  };
+
+  const refresh = () => {
+    loadStats();
+    if (entries) {
+      loadEntries();
+    }
+  };
+
+  const deleteEntry = (entry: CacheListEntry) => {
+    chrome.runtime.sendMessage({ type: 'deleteCacheEntry', cache: entry.cache, key: entry.key }, (response) => {
+      if (response?.success) refresh();
+    });
+  };
+
+  const deleteSite = (site: string) => {
+    chrome.runtime.sendMessage({ type: 'deleteCacheSite', site }, (response) => {
+      if (response?.success) refresh();
+    });
+  };
+
+  useEffect(() => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      if (typeof result[STORAGE_KEY] === 'number') {
+        setBudget(result[STORAGE_KEY]);
+      }
+    });
+    loadStats();
+  }, []);
+
+  const saveBudget = (bytes: number) => {
+    setBudget(bytes);
+    // The background evicts down to the new budget as soon as it sees the change
+    chrome.storage.local.set({ [STORAGE_KEY]: bytes }, () => setTimeout(loadStats, 200));
+  };
+
+  const clearCache = () => {
+    chrome.runtime.sendMessage({ type: 'clearCache' }, (response) => {
+      if (response?.success) {
+        setCacheCleared(true);
+        setTimeout(() => setCacheCleared(false), 3000);
+        refresh();
+      }
+    });
+  };
+
+  // Previews only; titles are cheap to refetch, and link checks and failures are local
+  const exportCache = () => {
+    chrome.runtime.sendMessage({ type: 'exportCache' }, (response) => {
+      if (!response?.success) {
+        setTransferStatus(`Could not export: ${response?.error ?? 'no response'}`);
+        return;
+      }
+      const { data } = response;
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `hoverpeek-cache-${data.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      const count = data.preview.length;
+      setTransferStatus(`Exported ${count} preview${count === 1 ? '' : 's'}`);
+    });
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then((text) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(text);
+        } catch {
+          setTransferStatus('That file is not valid JSON');
+          return;
+        }
+        chrome.runtime.sendMessage({ type: 'importCache', data }, (response) => {
+          if (!response?.success) {
+            setTransferStatus(`Could not import: ${response?.error ?? 'no response'}`);
+            return;
+          }
+          const { imported, skipped } = response;
+          setTransferStatus(`Imported ${imported} preview${imported === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} expired, older or unreadable` : ''}`);
+          refresh();
+        });
+      })
+      .catch(() => setTransferStatus('Could not read that file'));
+    event.target.value = '';
+  };
+
+  const usedPercent = stats ? Math.min(100, (stats.bytes / budget) * 100) : 0;
+  const query = search.trim().toLowerCase();
+  const matching = entries && query
+    ? entries.filter(entry => entry.url.toLowerCase().includes(query) || entry.site.includes(query))
+    : entries ?? [];
+  const sites = groupBySite(matching);
+
+  return (
+    <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+      <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Cache Management
+      </h2>
+
+      {stats && (
+        <div style={{ marginBottom: '8px' }}>
+          <div className="flex items-center justify-between" style={{ fontSize: '11px', marginBottom: '4px' }}>
+            <span style={{ fontWeight: 600 }}>{formatBytes(stats.bytes)} of {formatBytes(budget)}</span>
+            <span style={{ color: 'var(--text-weak)' }}>{stats.entries} entries</span>
+          </div>
+          <div style={{ height: '4px', background: 'var(--line)', borderRadius: '2px', overflow: 'hidden' }}>
+            <div style={{ width: `${usedPercent}%`, height: '100%', background: 'var(--accent)' }} />
+          </div>
+          {Object.entries(stats.caches).map(([name, cache]) => (
+            <div key={name} className="flex items-center justify-between" style={{ fontSize: '10px', color: 'var(--text-weak)', marginTop: '3px' }}>
+              <span>{CACHE_LABELS[name] ?? name}</span>
+              <span>{cache.entries} · {formatBytes(cache.bytes)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between py-1">
+        <span style={{ fontSize: '12px', fontWeight: 600 }}>Storage limit</span>
+        <select
+          value={budget}
+          onChange={(e) => saveBudget(Number(e.target.value))}
+          style={{ padding: '4px 6px', fontSize: '11px', background: 'var(--bg)', color: 'var(--text)', border: '1px solid var(--line)', borderRadius: '6px' }}
+        >
+          {!BUDGET_OPTIONS_MB.includes(budget / (1024 * 1024)) && (
+            <option value={budget}>{formatBytes(budget)}</option>
+          )}
+          {BUDGET_OPTIONS_MB.map(megabytes => (
+            <option key={megabytes} value={megabytes * 1024 * 1024}>{megabytes} MB</option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={() => (entries ? setEntries(null) : loadEntries())}
+        style={{ marginTop: '8px', fontSize: '10px', fontWeight: 600, background: 'none', border: 'none', color: 'var(--accent)', cursor: 'pointer', padding: 0 }}
+      >
+        {entries ? 'HIDE CACHED ENTRIES' : 'BROWSE CACHED ENTRIES'}
+      </button>
+
+      {entries && (
+        <div style={{ marginTop: '6px' }}>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={`Search ${entries.length} entries by URL or domain`}
+            style={{ ...inputStyle, marginBottom: '6px' }}
+          />
+          <div style={{ maxHeight: '220px', overflowY: 'auto', border: '1px solid var(--line)', borderRadius: '6px' }}>
+            {sites.length === 0 && (
+              <div style={{ padding: '3px 8px', fontSize: '10px', color: 'var(--text-weak)' }}>
+                {entries.length === 0 ? 'Nothing cached yet' : 'No matching entries'}
+              </div>
+            )}
+            {sites.slice(0, MAX_VISIBLE_SITES).map(([site, siteEntries]) => (
+              <div key={site} style={{ borderBottom: '1px solid var(--line)' }}>
+                <div className="flex items-center justify-between" style={{ padding: '4px 8px', fontSize: '11px', fontWeight: 600 }}>
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {site || 'Other'} ({siteEntries.length})
+                  </span>
+                  <button
+                    onClick={() => deleteSite(site)}
+                    title={`Delete everything cached for ${site}`}
+                    style={{ flexShrink: 0, fontSize: '10px', fontWeight: 600, background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer' }}
+                  >
+                    DELETE ALL
+                  </button>
+                </div>
+                {siteEntries.map(entry => (
+                  <div key={`${entry.cache}|${entry.key}`} className="flex items-center" style={{ gap: '6px', padding: '2px 8px 2px 16px', fontSize: '10px' }}>
+                    <span title={CACHE_LABELS[entry.cache] ?? entry.cache} style={{ flexShrink: 0, color: 'var(--text-weak)', textTransform: 'uppercase', width: '56px', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {entry.type}
+                    </span>
+                    <span title={entry.url} style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {entry.url.replace(/^https?:\/\//, '')}
+                    </span>
+                    <span style={{ flexShrink: 0, color: 'var(--text-weak)' }}>
+                      {formatAge(entry.storedAt)} · {formatBytes(entry.size)}
+                    </span>
+                    <button
+                      onClick={() => deleteEntry(entry)}
+                      title="Delete this entry"
+                      style={{ flexShrink: 0, fontSize: '10px', background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer' }}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+            {sites.length > MAX_VISIBLE_SITES && (
+              <div style={{ padding: '3px 8px', fontSize: '10px', color: 'var(--text-weak)' }}>
+                …and {sites.length - MAX_VISIBLE_SITES} more sites
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+        <button
+          onClick={exportCache}
+          style={{ flex: 1, padding: '6px 12px', background: 'var(--line)', color: 'var(--text)', border: 'none', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer' }}
+        >
+          EXPORT
+        </button>
+        <label
+          style={{ flex: 1, padding: '6px 12px', background: 'var(--line)', color: 'var(--text)', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer', textAlign: 'center' }}
+        >
+          IMPORT FILE
+          <input type="file" accept=".json,application/json" onChange={handleImportFile} style={{ display: 'none' }} />
+        </label>
+      </div>
+      <p style={{ fontSize: '10px', color: transferStatus ? 'var(--accent)' : 'var(--text-weak)', fontWeight: transferStatus ? 600 : undefined, marginTop: '6px', lineHeight: '1.4' }}>
+        {transferStatus || 'Share previews as a JSON file. Link checks are not included; links are always checked again on each machine. Only import files from people you trust: their summaries are shown as-is.'}
+      </p>
+
+      <button
+        onClick={clearCache}
+        className="w-full px-4 py-2.5 rounded-lg hover:opacity-90 transition-all"
+        style={{ marginTop: '8px', fontSize: '11px', fontWeight: 700, border: '1px solid var(--line)', cursor: 'pointer', background: 'var(--bg)', color: 'var(--text)', letterSpacing: '0.05em' }}
+      >
+        CLEAR CACHE
+      </button>
+      {cacheCleared ? (
+        <p style={{ fontSize: '11px', color: 'var(--accent)', marginTop: '8px', lineHeight: '1.4', fontWeight: 600 }}>
+          ✓ Cache cleared successfully
+        </p>
+      ) : (
+        <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginTop: '8px', lineHeight: '1.4' }}>
+          The least recently used previews are dropped once the limit is reached.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { normalizeDomain, parseDomainList } from './domainLists';
+
+type ListKind = 'allow' | 'block';
+
+// background.ts reads the same keys on startup and whenever they change
+const STORAGE_KEYS: Record<ListKind, string> = {
+  allow: 'domainAllowlist',
+  block: 'domainBlocklist',
+};
+
+const MAX_VISIBLE_DOMAINS = 50;
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '5px 8px',
+  fontSize: '11px',
+  background: 'var(--bg)',
+  color: 'var(--text)',
+  border: '1px solid var(--line)',
+  borderRadius: '6px',
+};
+
+const DomainListsPanel: React.FC = () => {
+  const [activeList, setActiveList] = useState<ListKind>('block');
+  const [lists, setLists] = useState<Record<ListKind, string[]>>({ allow: [], block: [] });
+  const [newDomain, setNewDomain] = useState('');
+  const [importText, setImportText] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    chrome.storage.local.get([STORAGE_KEYS.allow, STORAGE_KEYS.block], (result) => {
+      setLists({
+        allow: result[STORAGE_KEYS.allow] || [],
+        block: result[STORAGE_KEYS.block] || [],
+      });
+    });
+  }, []);
+
+  const saveList = (kind: ListKind, domains: string[]) => {
+    const sorted = Array.from(new Set(domains)).sort();
+    setLists(prev => ({ ...prev, [kind]: sorted }));
+    chrome.storage.local.set({ [STORAGE_KEYS[kind]]: sorted }, () => {
+      if (chrome.runtime.lastError) {
+        setStatus(`Could not save: ${chrome.runtime.lastError.message}`);
+      }
+    });
+  };
+
+  const handleAddDomain = () => {
+    const domain = normalizeDomain(newDomain);
+    if (!domain) {
+      setStatus(`"${newDomain}" is not a valid domain`);
+      return;
+    }
+    saveList(activeList, [...lists[activeList], domain]);
+    setNewDomain('');
+    setStatus(`Added ${domain}`);
+  };
+
+  const handleImport = (text: string) => {
+    const { domains, skipped } = parseDomainList(text);
+    const existing = new Set(lists[activeList]);
+    const added = domains.filter(domain => !existing.has(domain)).length;
+    saveList(activeList, [...lists[activeList], ...domains]);
+    setImportText('');
+    setStatus(`Imported ${added} new domain${added === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} unrecognized line${skipped === 1 ? '' : 's'}` : ''}`);
+  };
+
+  const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then(handleImport).catch(() => setStatus('Could not read that file'));
+    event.target.value = '';
+  };
+
+  const removeDomain = (domain: string) => {
+    saveList(activeList, lists[activeList].filter(entry => entry !== domain));
+  };
+
+  const currentList = lists[activeList];
+  const query = search.trim().toLowerCase();
+  const matching = query ? currentList.filter(domain => domain.includes(query)) : currentList;
+
+  const tabStyle = (kind: ListKind): React.CSSProperties => ({
+    flex: 1,
+    padding: '6px 8px',
+    fontSize: '10px',
+    fontWeight: 700,
+    letterSpacing: '0.05em',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    background: activeList === kind ? 'var(--accent)' : 'var(--line)',
+    color: activeList === kind ? 'white' : 'var(--text)',
+  });
+
+  return (
+    <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+      <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Domain Lists
+      </h2>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <button onClick={() => { setActiveList('allow'); setStatus(''); }} style={tabStyle('allow')}>
+          ALLOW ({lists.allow.length})
+        </button>
+        <button onClick={() => { setActiveList('block'); setStatus(''); }} style={tabStyle('block')}>
+          BLOCK ({lists.block.length})
+        </button>
+      </div>
+
+      <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginBottom: '8px', lineHeight: '1.4' }}>
+        {activeList === 'allow'
+          ? 'Links to these domains (and their subdomains) are always marked safe.'
+          : 'Links to these domains (and their subdomains) are marked unsafe and never fetched.'}
+      </p>
+
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <input
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAddDomain(); }}
+          placeholder="example.com"
+          style={inputStyle}
+        />
+        <button
+          onClick={handleAddDomain}
+          style={{ padding: '5px 10px', background: 'var(--accent)', color: 'white', border: 'none', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer' }}
+        >
+          ADD
+        </button>
+      </div>
+
+      <textarea
+        value={importText}
+        onChange={(e) => setImportText(e.target.value)}
+        placeholder={'Paste a hosts file, one domain per line,\nor Adblock rules like ||example.com^'}
+        rows={3}
+        style={{ ...inputStyle, resize: 'vertical', fontFamily: 'monospace' }}
+      />
+      <div style={{ display: 'flex', gap: '6px', marginTop: '6px', marginBottom: '8px' }}>
+        <button
+          onClick={() => handleImport(importText)}
+          disabled={!importText.trim()}
+          style={{ flex: 1, padding: '6px 12px', background: 'var(--line)', color: 'var(--text)', border: 'none', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: importText.trim() ? 'pointer' : 'default', opacity: importText.trim() ? 1 : 0.5 }}
+        >
+          IMPORT PASTED
+        </button>
+        <label
+          style={{ flex: 1, padding: '6px 12px', background: 'var(--line)', color: 'var(--text)', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer', textAlign: 'center' }}
+        >
+          IMPORT FILE
+          <input type="file" accept=".txt,.hosts,text/plain" onChange={handleFileImport} style={{ display: 'none' }} />
+        </label>
+      </div>
+
+      {status && (
+        <p style={{ fontSize: '10px', color: 'var(--accent)', marginBottom: '8px', lineHeight: '1.4', fontWeight: 600 }}>
+          {status}
+        </p>
+      )}
+
+      {currentList.length > 0 && (
+        <>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={`Search ${currentList.length} domains`}
+            style={{ ...inputStyle, marginBottom: '6px' }}
+          />
+          <div style={{ maxHeight: '160px', overflowY: 'auto', border: '1px solid var(--line)', borderRadius: '6px' }}>
+            {matching.slice(0, MAX_VISIBLE_DOMAINS).map(domain => (
+              <div key={domain} className="flex items-center justify-between" style={{ padding: '3px 8px', fontSize: '11px' }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{domain}</span>
+                <button onClick={() => removeDomain(domain)} style={{ fontSize: '10px', background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer' }}>✕</button>
+              </div>
+            ))}
+            {matching.length > MAX_VISIBLE_DOMAINS && (
+              <div style={{ padding: '3px 8px', fontSize: '10px', color: 'var(--text-weak)' }}>
+                …and {matching.length - MAX_VISIBLE_DOMAINS} more
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => { saveList(activeList, []); setStatus('List cleared'); }}
+            style={{ marginTop: '6px', fontSize: '10px', fontWeight: 600, background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer', padding: 0 }}
+          >
+            CLEAR LIST
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DomainListsPanel;
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react';
+
+// Mirrors NetworkPolicy in background.ts, which reads the same `networkPolicy` storage key
+type FetchPurpose = 'head' | 'sniff' | 'page' | 'document' | 'image' | 'title' | 'archive';
+
+interface NetworkPolicy {
+  headerProfile: 'honest' | 'compat';
+  credentials: 'omit' | 'include';
+  timeouts: Record<FetchPurpose, number>;
+  byteCaps: Record<FetchPurpose, number>;
+  logRequests: boolean;
+  archiveEndpoint: string;
+}
+
+interface NetworkLogEntry {
+  url: string;
+  method: string;
+  purpose: FetchPurpose;
+  status: number | null;
+  bytes: number;
+  durationMs: number;
+  outcome: string;
+}
+
+// Keep in sync with DEFAULT_NETWORK_POLICY in background.ts
+const DEFAULT_NETWORK_POLICY: NetworkPolicy = {
+  headerProfile: 'honest',
+  credentials: 'omit',
+  timeouts: { head: 1500, sniff: 1500, page: 3000, document: 8000, image: 8000, title: 5000, archive: 5000 },
+  byteCaps: { head: 0, sniff: 4096, page: 49152, document: 2 * 1024 * 1024, image: 5 * 1024 * 1024, title: 65536, archive: 16384 },
+  logRequests: false,
+  archiveEndpoint: 'https://archive.org/wayback/available',
+};
+
+const PURPOSES: [FetchPurpose, string][] = [
+  ['head', 'Link check'],
+  ['sniff', 'File sniff'],
+  ['page', 'Web page'],
+  ['document', 'PDF'],
+  ['image', 'Image'],
+  ['title', 'Title'],
+  ['archive', 'Archive lookup'],
+];
+
+const MAX_VISIBLE_LOG_ENTRIES = 10;
+
+const inputStyle: React.CSSProperties = {
+  width: '56px',
+  padding: '4px 6px',
+  fontSize: '11px',
+  background: 'var(--bg)',
+  color: 'var(--text)',
+  border: '1px solid var(--line)',
+  borderRadius: '6px',
+};
+
+const NetworkPanel: React.FC = () => {
+  const [policy, setPolicy] = useState<NetworkPolicy>(DEFAULT_NETWORK_POLICY);
+  const [showLimits, setShowLimits] = useState(false);
+  const [log, setLog] = useState<NetworkLogEntry[] | null>(null);
+  const [archiveDraft, setArchiveDraft] = useState(DEFAULT_NETWORK_POLICY.archiveEndpoint);
+  const [archiveError, setArchiveError] = useState('');
+
+  useEffect(() => {
+    chrome.storage.local.get(['networkPolicy'], (result) => {
+      if (result.networkPolicy) {
+        setPolicy({
+          ...DEFAULT_NETWORK_POLICY,
+          ...result.networkPolicy,
+          timeouts: { ...DEFAULT_NETWORK_POLICY.timeouts, ...result.networkPolicy.timeouts },
+          byteCaps: { ...DEFAULT_NETWORK_POLICY.byteCaps, ...result.networkPolicy.byteCaps },
+        });
+        setArchiveDraft(result.networkPolicy.archiveEndpoint ?? DEFAULT_NETWORK_POLICY.archiveEndpoint);
+      }
+    });
+  }, []);
+
+  const savePolicy = (next: NetworkPolicy) => {
+    setPolicy(next);
+    chrome.storage.local.set({ networkPolicy: next });
+  };
+
+  const updateLimit = (kind: 'timeouts' | 'byteCaps', purpose: FetchPurpose, value: number) => {
+    if (!Number.isFinite(value) || value <= 0) return;
+    savePolicy({ ...policy, [kind]: { ...policy[kind], [purpose]: value } });
+  };
+
+  // Empty turns archive lookups off
+  const saveArchiveEndpoint = () => {
+    const endpoint = archiveDraft.trim();
+    if (endpoint) {
+      try {
+        const url = new URL(endpoint);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      } catch {
+        setArchiveError('Enter an http(s) URL, or leave empty to turn lookups off');
+        return;
+      }
+    }
+    setArchiveError('');
+    if (endpoint !== policy.archiveEndpoint) {
+      savePolicy({ ...policy, archiveEndpoint: endpoint });
+    }
+  };
+
+  const loadLog = () => {
+    chrome.runtime.sendMessage({ type: 'getNetworkLog' }, (response) => {
+      if (response?.success) {
+        setLog(response.entries);
+      }
+    });
+  };
+
+  return (
+    <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+      <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Network
+      </h2>
+
+      <div className="flex items-center justify-between py-1">
+        <span style={{ fontSize: '12px', fontWeight: 600 }}>Request headers</span>
+        <select
+          value={policy.headerProfile}
+          onChange={(e) => savePolicy({ ...policy, headerProfile: e.target.value as NetworkPolicy['headerProfile'] })}
+          style={{ ...inputStyle, width: 'auto' }}
+        >
+          <option value="honest">Honest</option>
+          <option value="compat">Browser-like</option>
+        </select>
+      </div>
+      <label className="flex items-center justify-between py-1" style={{ cursor: 'pointer' }}>
+        <span style={{ fontSize: '12px', fontWeight: 600 }}>Send cookies</span>
+        <input
+          type="checkbox"
+          checked={policy.credentials === 'include'}
+          onChange={(e) => savePolicy({ ...policy, credentials: e.target.checked ? 'include' : 'omit' })}
+        />
+      </label>
+      <label className="flex items-center justify-between py-1" style={{ cursor: 'pointer' }}>
+        <span style={{ fontSize: '12px', fontWeight: 600 }}>Log requests to console</span>
+        <input
+          type="checkbox"
+          checked={policy.logRequests}
+          onChange={(e) => savePolicy({ ...policy, logRequests: e.target.checked })}
+        />
+      </label>
+      <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginTop: '4px', lineHeight: '1.4' }}>
+        Browser-like headers get past some bot checks but pretend to be a normal page visit.
+        Cookies let previews see logged-in pages, and tell those sites you hovered.
+      </p>
+
+      <label style={{ display: 'block', fontSize: '12px', fontWeight: 600, marginTop: '8px', marginBottom: '4px' }}>
+        Archive for dead links
+      </label>
+      <input
+        value={archiveDraft}
+        onChange={(e) => setArchiveDraft(e.target.value)}
+        onBlur={saveArchiveEndpoint}
+        onKeyDown={(e) => { if (e.key === 'Enter') saveArchiveEndpoint(); }}
+        placeholder="Off"
+        style={{ ...inputStyle, width: '100%' }}
+      />
+      <p style={{ fontSize: '10px', color: archiveError ? 'var(--danger)' : 'var(--text-weak)', marginTop: '4px', lineHeight: '1.4' }}>
+        {archiveError || 'Any service that speaks the Wayback Machine availability API, such as a self-hosted archive.'}
+      </p>
+
+      <button
+        onClick={() => setShowLimits(!showLimits)}
+        style={{ marginTop: '8px', fontSize: '10px', fontWeight: 600, background: 'none', border: 'none', color: 'var(--accent)', cursor: 'pointer', padding: 0 }}
+      >
+        {showLimits ? 'HIDE LIMITS' : 'TIMEOUTS & SIZE LIMITS'}
+      </button>
+
+      {showLimits && (
+        <div style={{ marginTop: '6px' }}>
+          <div className="flex items-center" style={{ gap: '6px', fontSize: '10px', color: 'var(--text-weak)', fontWeight: 600 }}>
+            <span style={{ flex: 1 }}></span>
+            <span style={{ width: '56px' }}>Timeout ms</span>
+            <span style={{ width: '56px' }}>Max KB</span>
+          </div>
+          {PURPOSES.map(([purpose, label]) => (
+            <div key={purpose} className="flex items-center" style={{ gap: '6px', marginTop: '4px' }}>
+              <span style={{ flex: 1, fontSize: '11px' }}>{label}</span>
+              <input
+                type="number"
+                min={100}
+                value={policy.timeouts[purpose]}
+                onChange={(e) => updateLimit('timeouts', purpose, parseInt(e.target.value, 10))}
+                style={inputStyle}
+              />
+              {purpose === 'head' ? (
+                <span style={{ width: '56px' }}></span>
+              ) : (
+                <input
+                  type="number"
+                  min={1}
+                  value={Math.round(policy.byteCaps[purpose] / 1024)}
+                  onChange={(e) => updateLimit('byteCaps', purpose, parseInt(e.target.value, 10) * 1024)}
+                  style={inputStyle}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={loadLog}
+        className="w-full px-4 py-2.5 rounded-lg hover:opacity-90 transition-all"
+        style={{ marginTop: '10px', fontSize: '11px', fontWeight: 700, border: '1px solid var(--line)', cursor: 'pointer', background: 'var(--bg)', color: 'var(--text)', letterSpacing: '0.05em' }}
+      >
+        {log ? 'REFRESH REQUEST LOG' : 'SHOW REQUEST LOG'}
+      </button>
+
+      {log && (
+        <div style={{ marginTop: '6px', maxHeight: '160px', overflowY: 'auto', border: '1px solid var(--line)', borderRadius: '6px' }}>
+          {log.length === 0 && (
+            <div style={{ padding: '3px 8px', fontSize: '10px', color: 'var(--text-weak)' }}>No requests yet</div>
+          )}
+          {log.slice(0, MAX_VISIBLE_LOG_ENTRIES).map((entry, index) => (
+            <div key={index} title={entry.url} style={{ padding: '3px 8px', fontSize: '10px', display: 'flex', gap: '6px' }}>
+              <span style={{ fontFamily: 'monospace', flexShrink: 0, color: entry.outcome === 'ok' ? 'var(--text-weak)' : 'var(--danger)' }}>
+                {entry.status ?? entry.outcome}
+              </span>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {entry.method} {entry.url.replace(/^https?:\/\//, '')}
+              </span>
+              <span style={{ flexShrink: 0, marginLeft: 'auto', color: 'var(--text-weak)' }}>{entry.durationMs}ms</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NetworkPanel;
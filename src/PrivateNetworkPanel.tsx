@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+
+// background.ts reads the same key; entries are page origins like https://intranet.example.com
+const STORAGE_KEY = 'privateNetworkOrigins';
+
+const PrivateNetworkPanel: React.FC = () => {
+  const [origins, setOrigins] = useState<string[]>([]);
+  const [currentOrigin, setCurrentOrigin] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.storage.local.get([STORAGE_KEY], (result) => {
+      if (Array.isArray(result[STORAGE_KEY])) {
+        setOrigins(result[STORAGE_KEY]);
+      }
+    });
+
+    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      try {
+        const url = new URL(tabs[0]?.url || '');
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          setCurrentOrigin(url.origin);
+        }
+      } catch {
+        // No web page in this tab (new tab, chrome:// pages)
+      }
+    });
+  }, []);
+
+  const saveOrigins = (next: string[]) => {
+    const sorted = Array.from(new Set(next)).sort();
+    setOrigins(sorted);
+    chrome.storage.local.set({ [STORAGE_KEY]: sorted });
+  };
+
+  const isCurrentAllowed = currentOrigin !== null && origins.includes(currentOrigin);
+
+  return (
+    <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+      <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Private Network
+      </h2>
+
+      <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginBottom: '8px', lineHeight: '1.4' }}>
+        Links from public sites to localhost, your router or intranet hosts are never fetched.
+        Allow a site here if it is your own intranet portal.
+      </p>
+
+      {currentOrigin && (
+        <label className="flex items-center justify-between py-1" style={{ cursor: 'pointer' }}>
+          <span style={{ fontSize: '12px', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            Allow on {new URL(currentOrigin).host}
+          </span>
+          <input
+            type="checkbox"
+            checked={isCurrentAllowed}
+            onChange={() => saveOrigins(
+              isCurrentAllowed ? origins.filter(origin => origin !== currentOrigin) : [...origins, currentOrigin]
+            )}
+          />
+        </label>
+      )}
+
+      {origins.map(origin => (
+        <div key={origin} className="flex items-center justify-between" style={{ padding: '3px 0', fontSize: '11px' }}>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{origin}</span>
+          <button
+            onClick={() => saveOrigins(origins.filter(entry => entry !== origin))}
+            style={{ fontSize: '10px', background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PrivateNetworkPanel;
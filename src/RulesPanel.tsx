@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+
+// Mirrors LinkRule in background.ts, which reads the same `linkRules` storage key
+interface LinkRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: {
+    domain?: string;
+    path?: string;
+    type?: string;
+    minSize?: number;
+    maxSize?: number;
+    minRedirects?: number;
+    maxRedirects?: number;
+  };
+  action: {
+    risk?: string;
+    reason?: string;
+    fetchPlan?: string;
+    skipPreview?: boolean;
+    skipLexicalChecks?: boolean;
+  };
+}
+
+const LINK_TYPES = ['webpage', 'pdf', 'download', 'image', 'video', 'broken'];
+const RISK_LEVELS = ['green', 'amber', 'red'];
+const FETCH_PLANS = ['blocked', 'head-only', 'partial-get', 'no-fetch'];
+
+const EMPTY_FORM = {
+  name: '',
+  domain: '',
+  path: '',
+  type: '',
+  minSizeKb: '',
+  maxSizeKb: '',
+  minRedirects: '',
+  maxRedirects: '',
+  risk: '',
+  reason: '',
+  fetchPlan: '',
+  skipPreview: false,
+  skipLexicalChecks: false,
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '5px 8px',
+  fontSize: '11px',
+  background: 'var(--bg)',
+  color: 'var(--text)',
+  border: '1px solid var(--line)',
+  borderRadius: '6px',
+};
+
+const labelStyle: React.CSSProperties = {
+  fontSize: '10px',
+  fontWeight: 600,
+  color: 'var(--text-weak)',
+  marginTop: '6px',
+  marginBottom: '2px',
+  display: 'block',
+};
+
+// Human-readable one-liner, e.g. "*.internal.example · download → red"
+function describeRule(rule: LinkRule): string {
+  const conditions = [
+    rule.match.domain,
+    rule.match.path && `/${rule.match.path}/`,
+    rule.match.type,
+    rule.match.minSize !== undefined && `≥${Math.round(rule.match.minSize / 1024)} KB`,
+    rule.match.maxSize !== undefined && `≤${Math.round(rule.match.maxSize / 1024)} KB`,
+    rule.match.minRedirects !== undefined && `≥${rule.match.minRedirects} redirects`,
+    rule.match.maxRedirects !== undefined && `≤${rule.match.maxRedirects} redirects`,
+  ].filter(Boolean);
+
+  const effects = [
+    rule.action.risk,
+    rule.action.fetchPlan,
+    rule.action.skipPreview && 'no preview',
+    rule.action.skipLexicalChecks && 'skip lexical checks',
+  ].filter(Boolean);
+
+  return `${conditions.join(' · ') || 'any link'} → ${effects.join(', ') || 'note only'}`;
+}
+
+const RulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<LinkRule[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+
+  useEffect(() => {
+    chrome.storage.local.get(['linkRules'], (result) => {
+      if (Array.isArray(result.linkRules)) {
+        setRules(result.linkRules);
+      }
+    });
+  }, []);
+
+  const saveRules = (next: LinkRule[]) => {
+    setRules(next);
+    chrome.storage.local.set({ linkRules: next });
+  };
+
+  const handleAddRule = () => {
+    if (form.path) {
+      try {
+        new RegExp(form.path);
+      } catch {
+        setFormError('Path pattern is not a valid regular expression');
+        return;
+      }
+    }
+
+    const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+    const minSizeKb = toNumber(form.minSizeKb);
+    const maxSizeKb = toNumber(form.maxSizeKb);
+    const minRedirects = toNumber(form.minRedirects);
+    const maxRedirects = toNumber(form.maxRedirects);
+
+    // Such a rule could never match
+    if (minSizeKb !== undefined && maxSizeKb !== undefined && minSizeKb > maxSizeKb) {
+      setFormError('Min KB is larger than Max KB');
+      return;
+    }
+    if (minRedirects !== undefined && maxRedirects !== undefined && minRedirects > maxRedirects) {
+      setFormError('Redirects ≥ is larger than Redirects ≤');
+      return;
+    }
+
+    const rule: LinkRule = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: form.name.trim(),
+      enabled: true,
+      match: {
+        domain: form.domain.trim() || undefined,
+        path: form.path || undefined,
+        type: form.type || undefined,
+        minSize: minSizeKb !== undefined ? minSizeKb * 1024 : undefined,
+        maxSize: maxSizeKb !== undefined ? maxSizeKb * 1024 : undefined,
+        minRedirects,
+        maxRedirects,
+      },
+      action: {
+        risk: form.risk || undefined,
+        reason: form.reason.trim() || undefined,
+        fetchPlan: form.fetchPlan || undefined,
+        skipPreview: form.skipPreview || undefined,
+        skipLexicalChecks: form.skipLexicalChecks || undefined,
+      },
+    };
+
+    if (!rule.name) {
+      rule.name = describeRule(rule);
+    }
+
+    saveRules([...rules, rule]);
+    setForm(EMPTY_FORM);
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const toggleRule = (id: string) => {
+    saveRules(rules.map(rule => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+  };
+
+  const deleteRule = (id: string) => {
+    saveRules(rules.filter(rule => rule.id !== id));
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    saveRules(next);
+  };
+
+  const renderSelect = (field: 'type' | 'risk' | 'fetchPlan', options: string[], anyLabel: string) => (
+    <select
+      value={form[field]}
+      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      style={inputStyle}
+    >
+      <option value="">{anyLabel}</option>
+      {options.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div style={{ borderTop: '1px solid var(--line)', paddingTop: '16px', marginTop: '16px' }}>
+      <h2 style={{ fontSize: '12px', fontWeight: 600, marginBottom: '12px', color: 'var(--text-weak)', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+        Link Rules
+      </h2>
+
+      {rules.length === 0 && (
+        <p style={{ fontSize: '10px', color: 'var(--text-weak)', marginBottom: '8px', lineHeight: '1.4' }}>
+          No rules yet. Rules run top to bottom and the first match decides.
+        </p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div
+          key={rule.id}
+          style={{ padding: '6px 8px', marginBottom: '6px', background: 'var(--bg)', border: '1px solid var(--line)', borderRadius: '6px', opacity: rule.enabled ? 1 : 0.5 }}
+        >
+          <div className="flex items-center justify-between">
+            <span style={{ fontSize: '11px', fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {rule.name}
+            </span>
+            <div className="flex items-center" style={{ gap: '4px', flexShrink: 0 }}>
+              <button onClick={() => moveRule(index, -1)} style={{ fontSize: '10px', background: 'none', border: 'none', color: 'var(--text-weak)', cursor: 'pointer' }}>↑</button>
+              <button onClick={() => moveRule(index, 1)} style={{ fontSize: '10px', background: 'none', border: 'none', color: 'var(--text-weak)', cursor: 'pointer' }}>↓</button>
+              <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+              <button onClick={() => deleteRule(rule.id)} style={{ fontSize: '10px', background: 'none', border: 'none', color: 'var(--danger)', cursor: 'pointer' }}>✕</button>
+            </div>
+          </div>
+          <div style={{ fontSize: '10px', color: 'var(--text-weak)', marginTop: '2px', wordBreak: 'break-all' }}>
+            {describeRule(rule)}
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <div style={{ padding: '8px', background: 'var(--bg)', border: '1px solid var(--line)', borderRadius: '8px' }}>
+          <label style={labelStyle}>Name</label>
+          <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Optional" style={inputStyle} />
+
+          <label style={labelStyle}>Domain (glob)</label>
+          <input value={form.domain} onChange={(e) => setForm({ ...form, domain: e.target.value })} placeholder="*.internal.example" style={inputStyle} />
+
+          <label style={labelStyle}>Path (regex)</label>
+          <input value={form.path} onChange={(e) => setForm({ ...form, path: e.target.value })} placeholder="^/pdf/" style={inputStyle} />
+
+          <label style={labelStyle}>Link type</label>
+          {renderSelect('type', LINK_TYPES, 'Any type')}
+
+          <div className="flex" style={{ gap: '6px' }}>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Min KB</label>
+              <input type="number" min={0} value={form.minSizeKb} onChange={(e) => setForm({ ...form, minSizeKb: e.target.value })} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Max KB</label>
+              <input type="number" min={0} value={form.maxSizeKb} onChange={(e) => setForm({ ...form, maxSizeKb: e.target.value })} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Redirects ≥</label>
+              <input type="number" min={0} value={form.minRedirects} onChange={(e) => setForm({ ...form, minRedirects: e.target.value })} style={inputStyle} />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={labelStyle}>Redirects ≤</label>
+              <input type="number" min={0} value={form.maxRedirects} onChange={(e) => setForm({ ...form, maxRedirects: e.target.value })} style={inputStyle} />
+            </div>
+          </div>
+
+          <label style={labelStyle}>Set risk</label>
+          {renderSelect('risk', RISK_LEVELS, 'Keep computed risk')}
+
+          <label style={labelStyle}>Force fetch plan</label>
+          {renderSelect('fetchPlan', FETCH_PLANS, 'Decide automatically')}
+
+          <label style={labelStyle}>Add reason</label>
+          <input value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} placeholder="Internal download" style={inputStyle} />
+
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input type="checkbox" checked={form.skipPreview} onChange={(e) => setForm({ ...form, skipPreview: e.target.checked })} />
+            Skip AI preview
+          </label>
+          <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input type="checkbox" checked={form.skipLexicalChecks} onChange={(e) => setForm({ ...form, skipLexicalChecks: e.target.checked })} />
+            Skip lexical checks
+          </label>
+
+          {formError && (
+            <p style={{ fontSize: '10px', color: 'var(--danger)', marginTop: '6px' }}>{formError}</p>
+          )}
+
+          <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+            <button
+              onClick={handleAddRule}
+              style={{ flex: 1, padding: '6px 12px', background: 'var(--accent)', color: 'white', border: 'none', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer' }}
+            >
+              ADD RULE
+            </button>
+            <button
+              onClick={() => { setShowForm(false); setFormError(''); }}
+              style={{ flex: 1, padding: '6px 12px', background: 'var(--line)', color: 'var(--text)', border: 'none', borderRadius: '6px', fontSize: '10px', fontWeight: 600, cursor: 'pointer' }}
+            >
+              CANCEL
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="w-full px-4 py-2.5 rounded-lg hover:opacity-90 transition-all"
+          style={{ fontSize: '11px', fontWeight: 700, border: '1px solid var(--line)', cursor: 'pointer', background: 'var(--bg)', color: 'var(--text)', letterSpacing: '0.05em' }}
+        >
+          NEW RULE
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RulesPanel;
@@ -1,3 +1,9 @@
+import { POPULAR_DOMAINS, BRAND_KEYWORDS, FIRST_PARTY_DOMAINS, LOOKALIKE_SUBSTITUTIONS } from './popularDomains';
+import { CONFUSABLES } from './confusables';
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixList';
+import { TLD_REPUTATION } from './tldReputation';
+import { CacheStore, CacheEntryInfo } from './cacheStore';
+
 declare const Summarizer: any;
 declare const LanguageModel: any;
 
@@ -11,6 +17,7 @@ enum LinkType {
   Tel = 'tel',
   Anchor = 'anchor',
   Blocked = 'blocked',
+  Broken = 'broken',
 }
 
 enum RiskLevel {
@@ -34,6 +41,7 @@ interface VideoPlatform {
 
 interface PreflightResult {
   domain: string;
+  registrableDomain?: string;
   type: LinkType;
   risk: RiskLevel;
   reasons: string[];
@@ -43,106 +51,507 @@ interface PreflightResult {
   redirectCount?: number;
   textMismatch?: { textDomain: string; linkDomain: string };
   videoPlatform?: VideoPlatform;
+  score?: number;
+  signals?: RiskSignal[];
+  matchedRule?: string;
+  skipPreview?: boolean;
+  lookalike?: LookalikeMatch;
+  unicodeDomain?: string;
+  via?: string[]; // wrapper and shortener hosts the link passes through before its destination
+  redirectChain?: RedirectHop[];
+  addressSpace?: AddressSpace; // set when the destination is not on the public internet
+  httpStatus?: number; // final status of the link check
+  connectionError?: string; // the host could not be reached at all
+}
+
+// A redirect done by the page itself (mirrors ClientRedirect in offscreen.ts)
+interface ClientRedirect {
+  kind: 'meta-refresh' | 'script' | 'interstitial';
+  target: string;
+  delay?: number;
+}
+
+// A client-side redirect plus the risk of the link once its target is taken into account
+interface ClientRedirectCheck {
+  kind: ClientRedirect['kind'];
+  target: string;
+  domain: string;
+  risk: RiskLevel;
+  score: number;
+  reasons: string[];
+  signals: RiskSignal[];
+}
+
+// Closest copy of a dead link in a web archive
+interface ArchiveSnapshot {
+  url: string;
+  timestamp: string; // ISO 8601
+}
+
+// One request in a redirect chain; the first hop is the link itself
+interface RedirectHop {
+  url: string;
+  status: number; // 0 when the request failed or timed out
+  domainChanged: boolean; // registrable domain differs from the previous hop
+  downgraded: boolean; // previous hop was HTTPS, this one is plain HTTP
+}
+
+interface LookalikeMatch {
+  domain: string; // the legitimate domain this one imitates
+  technique: 'homograph' | 'substitution' | 'edit-distance' | 'brand-in-subdomain' | 'brand-combo';
+}
+
+enum SignalCategory {
+  Scheme = 'scheme',
+  Domain = 'domain',
+  Transport = 'transport',
+  Redirect = 'redirect',
+  Content = 'content',
+  Policy = 'policy',
 }
 
 interface RiskSignal {
-  level: RiskLevel;
+  category: SignalCategory;
   reason: string;
+  weight: number;
+}
+
+interface RiskThresholds {
+  amber: number;
+  red: number;
+}
+
+// Score at or above each threshold maps to that level; overridable via chrome.storage
+const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  amber: 20,
+  red: 60,
+};
+
+let riskThresholds: RiskThresholds = { ...DEFAULT_RISK_THRESHOLDS };
+
+// Amber needs room below red, and a score of 0 (no warning signs at all) must stay green
+function parseRiskThresholds(stored: unknown): RiskThresholds {
+  const merged = { ...DEFAULT_RISK_THRESHOLDS, ...(stored as Partial<RiskThresholds>) };
+  if (!Number.isFinite(merged.amber) || !Number.isFinite(merged.red) || merged.amber < 1 || merged.amber >= merged.red) {
+    console.warn('[Risk] Ignoring invalid risk thresholds:', stored);
+    return { ...DEFAULT_RISK_THRESHOLDS };
+  }
+  return merged;
+}
+
+// User-defined link policy, edited in the popup and stored under `linkRules`.
+// Rules are checked top to bottom and the first enabled match wins.
+interface LinkRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: {
+    domain?: string; // glob, e.g. *.internal.example
+    path?: string; // regex tested against the pathname
+    type?: LinkType;
+    minSize?: number; // bytes
+    maxSize?: number;
+    minRedirects?: number;
+    maxRedirects?: number;
+  };
+  action: {
+    risk?: RiskLevel;
+    reason?: string;
+    fetchPlan?: FetchPlan;
+    skipPreview?: boolean;
+    skipLexicalChecks?: boolean;
+  };
+}
+
+let linkRules: LinkRule[] = [];
+
+// Trusted and distrusted domains (a listed domain covers its subdomains too)
+let domainAllowlist = new Set<string>();
+let domainBlocklist = new Set<string>();
+
+// Page origins allowed to preview private-network links (intranet portals on public hostnames)
+let privateNetworkOrigins = new Set<string>();
+
+chrome.storage.local.get(['riskThresholds', 'linkRules', 'domainAllowlist', 'domainBlocklist', 'privateNetworkOrigins', 'networkPolicy', 'cacheBudget'], (result) => {
+  if (result.riskThresholds) {
+    riskThresholds = parseRiskThresholds(result.riskThresholds);
+  }
+  if (Array.isArray(result.linkRules)) {
+    linkRules = result.linkRules;
+  }
+  if (Array.isArray(result.domainAllowlist)) {
+    domainAllowlist = new Set(result.domainAllowlist);
+  }
+  if (Array.isArray(result.domainBlocklist)) {
+    domainBlocklist = new Set(result.domainBlocklist);
+  }
+  if (Array.isArray(result.privateNetworkOrigins)) {
+    privateNetworkOrigins = new Set(result.privateNetworkOrigins);
+  }
+  if (result.networkPolicy) {
+    networkPolicy = mergeNetworkPolicy(result.networkPolicy);
+  }
+  if (typeof result.cacheBudget === 'number') {
+    cacheStore.setBudget(result.cacheBudget).catch(error => console.error('[Cache] Failed to apply budget:', error));
+  }
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local') return;
+  
+  if (changes.riskThresholds) {
+    riskThresholds = parseRiskThresholds(changes.riskThresholds.newValue);
+  }
+  if (changes.linkRules) {
+    linkRules = Array.isArray(changes.linkRules.newValue) ? changes.linkRules.newValue : [];
+  }
+  if (changes.domainAllowlist) {
+    domainAllowlist = new Set(changes.domainAllowlist.newValue || []);
+  }
+  if (changes.domainBlocklist) {
+    domainBlocklist = new Set(changes.domainBlocklist.newValue || []);
+  }
+  if (changes.privateNetworkOrigins) {
+    privateNetworkOrigins = new Set(changes.privateNetworkOrigins.newValue || []);
+  }
+  if (changes.networkPolicy) {
+    networkPolicy = mergeNetworkPolicy(changes.networkPolicy.newValue);
+  }
+  if (changes.cacheBudget) {
+    const budget = changes.cacheBudget.newValue;
+    cacheStore.setBudget(typeof budget === 'number' ? budget : DEFAULT_CACHE_BUDGET)
+      .catch(error => console.error('[Cache] Failed to apply budget:', error));
+  }
+});
+
+// Shared by every cache below. Keep DEFAULT_CACHE_BUDGET in sync with CachePanel.tsx.
+const DEFAULT_CACHE_BUDGET = 50 * 1024 * 1024;
+const cacheStore = new CacheStore('hoverpeek_cache', DEFAULT_CACHE_BUDGET);
+
+// Entries are served as-is for `ttl`, then for `staleTtl` more while a fresh copy is
+// fetched in the background
+interface CachePolicy {
+  ttl: number;
+  staleTtl: number;
+}
+
+// HTTP validators of the response an entry was built from
+interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
 }
 
-const CACHE_DURATION = 5 * 60 * 1000;
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  validators?: CacheValidators;
+}
 
 class CacheManager<T> {
-  private memoryCache = new Map<string, { data: T; timestamp: number }>();
-  private storageKey: string;
-  private isInitialized = false;
+  private revalidating = new Set<string>();
+  private name: string;
+  private policy: CachePolicy;
+  private describe: (key: string, data: T) => CacheEntryInfo;
 
-  constructor(storageKey: string) {
-    this.storageKey = storageKey;
-    this.initialize();
+  // `describe` labels entries for the cache inspector in the popup
+  constructor(name: string, policy: CachePolicy, describe: (key: string, data: T) => CacheEntryInfo) {
+    this.name = name;
+    this.policy = policy;
+    this.describe = describe;
+    this.sweep();
   }
 
-  private async initialize(): Promise<void> {
+  // Expired entries are otherwise only dropped when read or evicted
+  private async sweep(): Promise<void> {
     try {
-      const result = await chrome.storage.local.get(this.storageKey);
-      if (result[this.storageKey]) {
-        const stored = result[this.storageKey] as Record<string, { data: T; timestamp: number }>;
-        const now = Date.now();
-        for (const [key, entry] of Object.entries(stored)) {
-          if (now - entry.timestamp < CACHE_DURATION) {
-            this.memoryCache.set(key, entry);
-          }
-        }
-      }
-      this.isInitialized = true;
+      const now = Date.now();
+      await cacheStore.deleteWhere(this.name, (_key, entry) => !this.isUsable(entry as CacheEntry<T>, now));
     } catch (error) {
-      console.error('[Cache] Failed to initialize cache:', error);
-      this.isInitialized = true;
+      console.error('[Cache] Failed to sweep expired entries:', error);
     }
   }
 
-  async get(key: string): Promise<{ data: T; timestamp: number } | null> {
-    const cached = this.memoryCache.get(key);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-      return cached;
+  private isUsable(entry: CacheEntry<T>, now: number): boolean {
+    return now - entry.timestamp < this.policy.ttl + this.policy.staleTtl;
+  }
+
+  // Stale entries are still returned; the caller serves them and calls revalidate()
+  async get(key: string): Promise<(CacheEntry<T> & { stale: boolean }) | null> {
+    let cached: CacheEntry<T> | undefined;
+    try {
+      cached = await cacheStore.get<CacheEntry<T>>(this.name, key);
+    } catch (error) {
+      console.error('[Cache] Failed to read cache:', error);
+      return null;
+    }
+    
+    const now = Date.now();
+    if (cached && this.isUsable(cached, now)) {
+      return { ...cached, stale: now - cached.timestamp >= this.policy.ttl };
     }
     if (cached) {
-      this.memoryCache.delete(key);
+      cacheStore.delete(this.name, key).catch(error => {
+        console.error('[Cache] Failed to delete expired entry:', error);
+      });
     }
     return null;
   }
 
-  async set(key: string, data: T): Promise<void> {
-    const entry = { data, timestamp: Date.now() };
-    this.memoryCache.set(key, entry);
-    
-    this.persistToStorage().catch(error => {
+  async set(key: string, data: T, validators?: CacheValidators): Promise<void> {
+    const entry: CacheEntry<T> = { data, timestamp: Date.now(), validators };
+    cacheStore.put(this.name, key, entry, this.describe(key, data)).catch(error => {
       console.error('[Cache] Failed to persist cache:', error);
     });
   }
 
-  private async persistToStorage(): Promise<void> {
-    if (!this.isInitialized) return;
-    
-    const toStore: Record<string, { data: T; timestamp: number }> = {};
-    const now = Date.now();
-    
-    for (const [key, entry] of this.memoryCache.entries()) {
-      if (now - entry.timestamp < CACHE_DURATION) {
-        toStore[key] = entry;
-      }
+  async delete(key: string): Promise<void> {
+    try {
+      await cacheStore.delete(this.name, key);
+    } catch (error) {
+      console.error('[Cache] Failed to delete entry:', error);
     }
-    
+  }
+
+  // The source confirmed the entry is still current, so it counts as fresh again
+  async touch(key: string): Promise<void> {
     try {
-      await chrome.storage.local.set({ [this.storageKey]: toStore });
+      const entry = await cacheStore.get<CacheEntry<T>>(this.name, key);
+      if (entry) {
+        await cacheStore.put(this.name, key, { ...entry, timestamp: Date.now() }, this.describe(key, entry.data));
+      }
     } catch (error) {
-      await this.cleanup();
+      console.error('[Cache] Failed to persist cache:', error);
     }
   }
 
-  private async cleanup(): Promise<void> {
+  // One background refresh per key at a time. A failed refresh leaves the stale entry in place.
+  revalidate(key: string, refresh: () => Promise<unknown>): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    refresh()
+      .catch(error => console.warn('[Cache] Revalidation failed:', error))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  // Usable entries, stale ones included
+  async entries(): Promise<{ key: string; entry: CacheEntry<T> }[]> {
     const now = Date.now();
-    for (const [key, entry] of this.memoryCache.entries()) {
-      if (now - entry.timestamp >= CACHE_DURATION) {
-        this.memoryCache.delete(key);
-      }
+    const records = await cacheStore.getAll(this.name);
+    return records
+      .map(({ key, value }) => ({ key, entry: value as CacheEntry<T> }))
+      .filter(({ entry }) => this.isUsable(entry, now));
+  }
+
+  // Keeps the entry's own timestamp so it ages like one fetched here. Expired entries and
+  // entries older than the local copy are skipped.
+  async import(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    if (!this.isUsable(entry, Date.now())) {
+      return false;
+    }
+    const existing = await cacheStore.get<CacheEntry<T>>(this.name, key);
+    if (existing && existing.timestamp >= entry.timestamp) {
+      return false;
+    }
+    await cacheStore.put(this.name, key, entry, this.describe(key, entry.data));
+    return true;
+  }
+
+  async deleteWhere(predicate: (key: string, data: T) => boolean): Promise<void> {
+    try {
+      await cacheStore.deleteWhere(this.name, (key, entry) => predicate(key, (entry as CacheEntry<T>).data));
+    } catch (error) {
+      console.error('[Cache] Failed to delete entries:', error);
     }
-    await this.persistToStorage();
   }
 
   async clear(): Promise<void> {
-    this.memoryCache.clear();
     try {
-      await chrome.storage.local.remove(this.storageKey);
+      await cacheStore.clear(this.name);
     } catch (error) {
       console.error('[Cache] Failed to clear cache:', error);
     }
   }
 }
 
-const titleCache = new CacheManager<string>('hoverpeek_title_cache');
-const preflightCache = new CacheManager<PreflightResult>('hoverpeek_preflight_cache');
-const previewCache = new CacheManager<{ summary: string; outline?: string[]; overview?: string; imageDescription?: string; imageUrl?: string }>('hoverpeek_preview_cache');
+interface InFlightEntry<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+  updates: any[];
+  listeners: Set<(update: any) => void>;
+}
+
+// Shares one pending piece of work between every caller asking for the same key.
+// Late joiners get the updates emitted so far replayed, then the live ones.
+// The work is only aborted once every caller has cancelled.
+class InFlightRegistry<T> {
+  private pending = new Map<string, InFlightEntry<T>>();
+
+  run(
+    key: string,
+    signal: AbortSignal | undefined,
+    onUpdate: ((update: any) => void) | null,
+    task: (signal: AbortSignal, emit: (update: any) => void) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let entry = this.pending.get(key);
+    if (!entry || entry.controller.signal.aborted) {
+      entry = this.start(key, task);
+    } else if (onUpdate) {
+      entry.updates.forEach(update => onUpdate(update));
+    }
+
+    const current = entry;
+    current.subscribers++;
+    if (onUpdate) {
+      current.listeners.add(onUpdate);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      // Runs on abort and again on settle; only the first may give up the subscription
+      let detached = false;
+      const detach = () => {
+        if (detached) return;
+        detached = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (onUpdate) {
+          current.listeners.delete(onUpdate);
+        }
+        current.subscribers--;
+      };
+      const onAbort = () => {
+        if (detached) return;
+        detach();
+        if (current.subscribers === 0) {
+          current.controller.abort();
+        }
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      current.promise.then(
+        (value) => {
+          detach();
+          resolve(value);
+        },
+        (error) => {
+          detach();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private start(
+    key: string,
+    task: (signal: AbortSignal, emit: (update: any) => void) => Promise<T>
+  ): InFlightEntry<T> {
+    const entry: InFlightEntry<T> = {
+      promise: Promise.resolve() as Promise<T>,
+      controller: new AbortController(),
+      subscribers: 0,
+      updates: [],
+      listeners: new Set(),
+    };
+
+    const emit = (update: any) => {
+      entry.updates.push(update);
+      entry.listeners.forEach(listener => listener(update));
+    };
+
+    entry.promise = task(entry.controller.signal, emit).finally(() => {
+      if (this.pending.get(key) === entry) {
+        this.pending.delete(key);
+      }
+    });
+    this.pending.set(key, entry);
+    return entry;
+  }
+}
+
+// Cache keys are prefixed with the registrable domain so a whole site can be dropped at once
+function getSiteCacheKey(url: string, key: string = url): string {
+  try {
+    return `${getRegistrableDomain(new URL(url).hostname)}|${key}`;
+  } catch {
+    return `|${key}`;
+  }
+}
+
+function getSiteFromCacheKey(key: string): string {
+  return key.slice(0, key.indexOf('|'));
+}
+
+// Title and link fact entries are keyed by the URL itself
+function getUrlFromCacheKey(key: string): string {
+  return key.slice(key.indexOf('|') + 1);
+}
+
+interface PreviewFailure {
+  url: string;
+  error: PreviewErrorInfo;
+  attempts: number;
+  failedAt: number;
+  retryAt: number;
+}
+
+interface CachedPreview {
+  url: string;
+  type: LinkType;
+  summary: string;
+  outline?: string[];
+  overview?: string;
+  imageDescription?: string;
+  image?: Blob;
+  clientRedirect?: ClientRedirectCheck;
+  archive?: ArchiveSnapshot | null;
+}
+
+// Titles rarely change. Link facts follow redirects that do, so they go stale fast.
+// Previews are expensive to rebuild and can be confirmed cheaply with their validators.
+// Older versions kept the caches in chrome.storage.local, then whole verdicts in 'preflight'.
+// Bump CACHE_MIGRATION_VERSION when another cleanup is needed; each one runs once.
+const CACHE_MIGRATION_VERSION = 1;
+
+chrome.storage.local.get('cacheMigrationVersion', async ({ cacheMigrationVersion }) => {
+  if (typeof cacheMigrationVersion === 'number' && cacheMigrationVersion >= CACHE_MIGRATION_VERSION) {
+    return;
+  }
+  try {
+    await chrome.storage.local.remove(['hoverpeek_title_cache', 'hoverpeek_preflight_cache', 'hoverpeek_preview_cache']);
+    await cacheStore.clear('preflight');
+    await chrome.storage.local.set({ cacheMigrationVersion: CACHE_MIGRATION_VERSION });
+  } catch (error) {
+    // Not recorded, so the next start tries again
+    console.error('[Cache] Failed to drop old caches:', error);
+  }
+});
+
+const titleCache = new CacheManager<string>('title', { ttl: 60 * 60 * 1000, staleTtl: 24 * 60 * 60 * 1000 }, (key) => ({
+  url: getUrlFromCacheKey(key),
+  type: 'title',
+}));
+const networkFactsCache = new CacheManager<NetworkFacts>('network', { ttl: 5 * 60 * 1000, staleTtl: 30 * 60 * 1000 }, (key, facts) => ({
+  url: getUrlFromCacheKey(key),
+  type: facts.type,
+}));
+// Failed previews, so a re-hover reports the failure at once instead of waiting out the same timeouts.
+// Records outlive their backoff so repeated failures keep backing off further.
+const failureCache = new CacheManager<PreviewFailure>('failure', { ttl: 24 * 60 * 60 * 1000, staleTtl: 0 }, (_key, failure) => ({
+  url: failure.url,
+  type: failure.error.kind,
+}));
+const previewCache = new CacheManager<CachedPreview>('preview', { ttl: 30 * 60 * 1000, staleTtl: 24 * 60 * 60 * 1000 }, (_key, preview) => ({
+  url: preview.url,
+  type: preview.type,
+}));
+
+// Work still running, keyed the same way as the caches above
+const networkFactsRequests = new InFlightRegistry<NetworkFacts>();
+const previewRequests = new InFlightRegistry<void>();
 
 let summarizerAvailable: string | null = null;
 let promptAvailable: string | null = null;
@@ -157,12 +566,7 @@ let sessionIdleTimer: number | null = null;
 
 // Get the domain from a URL
 function extractDomain(url: URL): string {
-  try {
-    const hostname = url.hostname;
-    return hostname;
-  } catch {
-    return url.hostname;
-  }
+  return url.hostname.toLowerCase().replace(/\.$/, '');
 }
 
 // Figure out what video platform this is (YouTube, Vimeo, etc.)
@@ -252,8 +656,9 @@ function normalizeAndGate(
     const dangerousSchemes = ['javascript:', 'data:', 'file:', 'vbscript:'];
     if (dangerousSchemes.some(scheme => url.protocol === scheme)) {
       signals.push({
-        level: RiskLevel.Red,
+        category: SignalCategory.Scheme,
         reason: 'Unsafe scheme',
+        weight: 100,
       });
       return null;
     }
@@ -279,149 +684,770 @@ function isSamePageAnchor(url: URL, pageOrigin: string): boolean {
   }
 }
 
-// Check for homograph attacks (mixed scripts, confusable chars)
-function detectHomograph(domain: string): boolean {
-  const hasCyrillic = /[\u0400-\u04FF]/.test(domain);
-  const hasLatin = /[a-zA-Z]/.test(domain);
-  const hasGreek = /[\u0370-\u03FF]/.test(domain);
-  
-  if ((hasCyrillic && hasLatin) || (hasGreek && hasLatin)) {
-    return true;
+// Public suffixes Google search runs on. Listed out, since google.<anything> also matches google.evil.com.
+const GOOGLE_SUFFIXES = [
+  'com', 'co.uk', 'ca', 'de', 'fr', 'es', 'it', 'nl', 'be', 'ch', 'at', 'se', 'no', 'dk', 'fi', 'pl', 'pt',
+  'ie', 'cz', 'gr', 'hu', 'ro', 'ru', 'com.au', 'co.nz', 'co.in', 'co.jp', 'co.kr', 'co.il', 'co.za',
+  'com.br', 'com.mx', 'com.ar', 'com.tr', 'com.sg', 'com.hk', 'com.tw', 'com.ua',
+];
+const GOOGLE_HOST = new RegExp(`(^|\\.)google\\.(${GOOGLE_SUFFIXES.map(suffix => suffix.replace('.', '\\.')).join('|')})$`);
+
+// Redirect wrappers whose destination sits in a query parameter
+const URL_WRAPPERS: Array<{ host: RegExp; path: RegExp; params: string[] }> = [
+  { host: GOOGLE_HOST, path: /^\/url$/, params: ['q', 'url'] },
+  { host: /^(l|lm)\.facebook\.com$/, path: /^\/l\.php$/, params: ['u'] },
+  { host: /^l\.instagram\.com$/, path: /^\/$/, params: ['u'] },
+  { host: /(^|\.)youtube\.com$/, path: /^\/redirect$/, params: ['q'] },
+  { host: /\.safelinks\.protection\.outlook\.com$/, path: /^\/$/, params: ['url'] },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ['url'] },
+  { host: /^steamcommunity\.com$/, path: /^\/linkfilter\/?$/, params: ['url', 'u'] },
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/redir\/redirect\/?$/, params: ['url'] },
+  { host: /^away\.vk\.com$|^vk\.com$/, path: /^\/away\.php$/, params: ['to'] },
+];
+
+// Shorteners only reveal the destination through their redirect, so they are counted but still fetched
+const URL_SHORTENERS = new Set([
+  't.co', 'bit.ly', 'tinyurl.com', 'goo.gl', 'ow.ly', 'buff.ly', 'is.gd', 'rebrand.ly', 'cutt.ly', 'lnkd.in',
+]);
+
+// Query parameters that usually carry a redirect target on sites we don't know about
+const GENERIC_REDIRECT_PARAMS = ['url', 'u', 'to', 'target', 'dest', 'destination', 'redirect', 'redirect_url', 'goto', 'out', 'link'];
+
+// Share and login pages take a URL parameter too, but they stay on the site itself
+const NON_REDIRECT_PATH = /share|sharer|intent|submit|login|signin|oauth|authorize/i;
+
+const MAX_UNWRAP_DEPTH = 5;
+
+function parseWrappedTarget(value: string | null): URL | null {
+  if (!value) return null;
+  try {
+    const target = new URL(value);
+    return target.protocol === 'http:' || target.protocol === 'https:' ? target : null;
+  } catch {
+    return null;
   }
-  
-  const confusables = [
-    'xn--',
-    '\u0430',
-    '\u0435',
-    '\u043E',
-    '\u0440',
-    '\u0441',
-    '\u0445',
-  ];
-  
-  return confusables.some(char => domain.includes(char));
 }
 
-// See if the anchor text says one domain but the link goes somewhere else
-function checkAnchorTextMismatch(
-  anchorText: string,
-  hrefDomain: string
-): { textDomain: string; linkDomain: string } | null {
-  const domainPattern = /(?:https?:\/\/)?([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i;
-  const match = anchorText.match(domainPattern);
+function findWrappedTarget(url: URL): URL | null {
+  const host = url.hostname.toLowerCase();
   
-  if (match && match[1]) {
-    const textDomain = match[1].toLowerCase();
-    const normalizedHrefDomain = hrefDomain.toLowerCase().replace(/^www\./, '');
-    const normalizedTextDomain = textDomain.replace(/^www\./, '');
-    
-    if (normalizedTextDomain !== normalizedHrefDomain) {
-      const extractTopLevel = (domain: string) => {
-        const parts = domain.split('.');
-        if (parts.length >= 2) {
-          return parts.slice(-2).join('.');
-        }
-        return domain;
-      };
-      
-      return {
-        textDomain: extractTopLevel(normalizedTextDomain),
-        linkDomain: extractTopLevel(normalizedHrefDomain),
-      };
+  for (const wrapper of URL_WRAPPERS) {
+    if (wrapper.host.test(host) && wrapper.path.test(url.pathname)) {
+      for (const param of wrapper.params) {
+        const target = parseWrappedTarget(url.searchParams.get(param));
+        if (target) return target;
+      }
+      return null;
     }
   }
-  
   return null;
 }
 
-// Flag HTTP links when coming from HTTPS (or chrome-extension for demo)
-function checkHttpsDowngrade(targetUrl: URL, pageOrigin: string): boolean {
-  try {
-    const pageUrl = new URL(pageOrigin);
-    return (pageUrl.protocol === 'https:' || pageUrl.protocol === 'chrome-extension:') && targetUrl.protocol === 'http:';
-  } catch {
-    return false;
+// A URL-looking parameter on an unknown site is only a guess, so callers must see the link
+// actually redirect there before trusting it; otherwise ?link=https://paypal.com would pass as PayPal
+function findGenericRedirectTarget(url: URL): URL | null {
+  const host = url.hostname.toLowerCase();
+  if (NON_REDIRECT_PATH.test(url.pathname)) {
+    return null;
+  }
+  for (const param of GENERIC_REDIRECT_PARAMS) {
+    const target = parseWrappedTarget(url.searchParams.get(param));
+    if (target && getRegistrableDomain(target.hostname) !== getRegistrableDomain(host)) {
+      return target;
+    }
   }
+  return null;
 }
 
-// Quick checks we can do without hitting the network
-function performLexicalChecks(
-  url: URL,
-  anchorText: string,
-  pageOrigin: string
-): { signals: RiskSignal[]; textMismatch: { textDomain: string; linkDomain: string } | null } {
-  const signals: RiskSignal[] = [];
-  let textMismatch = null;
+// Peel known redirect wrappers off a link so checks run against where it really goes.
+// `intermediaries` lists the hosts the link would pass through first, outermost first;
+// `wrappers` holds the peeled URLs themselves, in the same order.
+function unwrapUrl(url: URL): { url: URL; intermediaries: string[]; wrappers: URL[] } {
+  const intermediaries: string[] = [];
+  const wrappers: URL[] = [];
+  let current = url;
   
-  if (detectHomograph(url.hostname)) {
-    signals.push({
-      level: RiskLevel.Amber,
-      reason: 'Suspicious domain characters',
-    });
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    const target = findWrappedTarget(current);
+    if (!target) break;
+    intermediaries.push(extractDomain(current));
+    wrappers.push(current);
+    current = target;
   }
   
-  textMismatch = checkAnchorTextMismatch(anchorText, url.hostname);
-  
-  if (checkHttpsDowngrade(url, pageOrigin)) {
-    signals.push({
-      level: RiskLevel.Amber,
-      reason: 'HTTP (not secure)',
-    });
+  if (URL_SHORTENERS.has(current.hostname.toLowerCase())) {
+    intermediaries.push(extractDomain(current));
   }
   
-  return { signals, textMismatch };
+  return { url: current, intermediaries, wrappers };
 }
 
-// Guess link type from Content-Type header
-function determineLinkTypeFromContentType(
-  contentType: string,
-  contentDisposition: string | null
-): LinkType {
-  const ct = contentType.toLowerCase();
-  
-  if (contentDisposition?.toLowerCase().includes('attachment')) {
-    return LinkType.Download;
+// Public Suffix List split by rule kind: `co.uk`, `*.ck` (stored as `ck`), `!www.ck` (stored as `www.ck`)
+const publicSuffixes = new Set<string>();
+const wildcardSuffixes = new Set<string>();
+const suffixExceptions = new Set<string>();
+
+for (const rule of PUBLIC_SUFFIX_RULES.split('\n')) {
+  if (rule.startsWith('!')) {
+    suffixExceptions.add(rule.slice(1));
+  } else if (rule.startsWith('*.')) {
+    wildcardSuffixes.add(rule.slice(2));
+  } else if (rule) {
+    publicSuffixes.add(rule);
   }
+}
+
+function isIpAddress(hostname: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) || hostname.startsWith('[');
+}
+
+// Longest matching PSL rule; unlisted TLDs fall back to the implicit `*` rule
+function getPublicSuffix(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
   
-  if (ct.includes('application/pdf')) {
-    return LinkType.PDF;
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (suffixExceptions.has(candidate)) {
+      return labels.slice(i + 1).join('.');
+    }
+    if (publicSuffixes.has(candidate) || wildcardSuffixes.has(labels.slice(i + 1).join('.'))) {
+      return candidate;
+    }
   }
   
-  if (ct.startsWith('image/')) {
-    return LinkType.Image;
+  return labels[labels.length - 1];
+}
+
+// The part of a hostname someone actually registered (mail.example.co.uk -> example.co.uk).
+// IPs and bare public suffixes come back unchanged.
+function getRegistrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (isIpAddress(host)) {
+    return host;
   }
   
-  if (ct.startsWith('video/') || ct.includes('application/x-mpegurl')) {
-    return LinkType.Video;
+  const suffix = getPublicSuffix(host);
+  if (host === suffix) {
+    return host;
   }
   
-  const downloadTypes = [
-    'application/octet-stream',
-    'application/x-msdownload',
-    'application/x-msdos-program',
-    'application/zip',
-    'application/x-zip-compressed',
-    'application/x-rar-compressed',
-    'application/x-7z-compressed',
-    'application/x-tar',
-    'application/x-gzip',
-  ];
-  
-  if (downloadTypes.some(type => ct.includes(type))) {
-    return LinkType.Download;
-  }
+  const labels = host.slice(0, host.length - suffix.length - 1).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+// Where a host lives, as far as we can tell without resolving it
+type AddressSpace = 'public' | 'private' | 'loopback' | 'link-local' | 'local-name';
+
+const ADDRESS_SPACE_LABELS: Record<Exclude<AddressSpace, 'public'>, string> = {
+  'private': 'a private network address',
+  'loopback': 'this computer',
+  'link-local': 'a link-local address',
+  'local-name': 'a local network name',
+};
+
+// Names that only resolve inside a home or company network
+const LOCAL_NAME_SUFFIXES = ['.local', '.localdomain', '.internal', '.intranet', '.lan', '.home', '.home.arpa', '.corp'];
+
+function classifyIPv4(octets: number[]): AddressSpace {
+  const [a, b] = octets;
+  if (a === 127 || a === 0) return 'loopback';
+  if (a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)) return 'private';
+  if (a === 100 && b >= 64 && b <= 127) return 'private'; // carrier-grade NAT
+  if (a === 169 && b === 254) return 'link-local';
+  return 'public';
+}
+
+function classifyIPv6(address: string): AddressSpace {
+  if (address === '::1' || address === '::') return 'loopback';
   
-  if (ct.includes('text/html') || ct.includes('application/xhtml')) {
-    return LinkType.Webpage;
+  // IPv4-mapped, which URL normalizes to hex: ::ffff:c0a8:101
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return classifyIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
   }
   
-  return LinkType.Webpage;
+  if (/^f[cd][0-9a-f]{0,2}:/.test(address)) return 'private';
+  if (/^fe[89ab][0-9a-f]?:/.test(address)) return 'link-local';
+  return 'public';
 }
 
-// Fallback: guess link type from the URL path
-function guesslinkTypeFromUrl(url: string): LinkType | null {
-  try {
-    const urlObj = new URL(url);
+function classifyAddressSpace(hostname: string): AddressSpace {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  
+  if (host.startsWith('[')) {
+    return classifyIPv6(host.slice(1, -1));
+  }
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) {
+    return classifyIPv4(host.split('.').map(Number));
+  }
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'loopback';
+  }
+  if (!host.includes('.') || LOCAL_NAME_SUFFIXES.some(suffix => host.endsWith(suffix))) {
+    return 'local-name';
+  }
+  return 'public';
+}
+
+// A public page may not use us to probe the user's network. Pages that are themselves on
+// a private network, or that the user trusted in the popup, can preview private links.
+function canReachPrivateNetwork(pageOrigin: string): boolean {
+  try {
+    const page = new URL(pageOrigin);
+    return classifyAddressSpace(page.hostname) !== 'public' || privateNetworkOrigins.has(page.origin);
+  } catch {
+    return false;
+  }
+}
+
+function refusePrivateHost(candidate: URL): AddressSpace | null {
+  const space = classifyAddressSpace(candidate.hostname);
+  return space === 'public' ? null : space;
+}
+
+// The check redirect loops run on every hop. Without a page to go by, private hops are refused.
+function getRefusalCheck(pageOrigin?: string): ((url: URL) => AddressSpace | null) | undefined {
+  return pageOrigin && canReachPrivateNetwork(pageOrigin) ? undefined : refusePrivateHost;
+}
+
+function createPrivateNetworkResult(url: URL, space: AddressSpace, signals: RiskSignal[]): PreflightResult {
+  const domain = extractDomain(url);
+  const policySignal: RiskSignal = {
+    category: SignalCategory.Policy,
+    reason: `Points to ${ADDRESS_SPACE_LABELS[space as Exclude<AddressSpace, 'public'>]} from a public page, not fetched`,
+    weight: 30,
+  };
+  const scored = scoreRisk([...signals, policySignal]);
+  
+  return {
+    domain,
+    registrableDomain: getRegistrableDomain(domain),
+    type: guesslinkTypeFromUrl(url.href) ?? LinkType.Webpage,
+    risk: scored.risk,
+    reasons: scored.reasons,
+    score: scored.score,
+    signals: scored.signals,
+    finalUrl: url.href,
+    fetchPlan: FetchPlan.NoFetch,
+    addressSpace: space,
+  };
+}
+
+const POPULAR_DOMAIN_SET = new Set(POPULAR_DOMAINS);
+
+// Matched by suffix, since some of these are public suffixes themselves (googleapis.com)
+function isFirstPartyHost(host: string): boolean {
+  return FIRST_PARTY_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+// Fold lookalike characters (0/o, 1/l, rn/m...) so paypa1 and paypal compare equal
+function foldLookalikes(label: string): string {
+  return LOOKALIKE_SUBSTITUTIONS.reduce(
+    (folded, [pattern, replacement]) => folded.replace(pattern, replacement),
+    label
+  );
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps)
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+  
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+  
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  
+  return d[rows - 1][cols - 1];
+}
+
+// Does this host imitate a popular domain? (paypa1.com, rnicrosoft.com, google-login.com)
+function detectTyposquat(hostname: string): LookalikeMatch | null {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  const registrable = getRegistrableDomain(host);
+  // The brands' own sites and infrastructure, before any brand-name heuristics
+  if (POPULAR_DOMAIN_SET.has(registrable) || isFirstPartyHost(host)) {
+    return null;
+  }
+  
+  const label = registrable.split('.')[0];
+  const subdomainTokens = host
+    .slice(0, host.length - registrable.length)
+    .split(/[.-]/)
+    .filter(Boolean);
+  
+  // paypal.com.account-check.xyz
+  for (const token of subdomainTokens) {
+    if (BRAND_KEYWORDS[token]) {
+      return { domain: BRAND_KEYWORDS[token], technique: 'brand-in-subdomain' };
+    }
+  }
+  
+  // google-login.com, secure-paypal.net
+  const labelTokens = label.split('-');
+  if (labelTokens.length > 1) {
+    for (const token of labelTokens) {
+      if (BRAND_KEYWORDS[token]) {
+        return { domain: BRAND_KEYWORDS[token], technique: 'brand-combo' };
+      }
+    }
+  }
+  
+  // paypa1.com, rnicrosoft.com
+  const folded = foldLookalikes(label);
+  for (const popular of POPULAR_DOMAINS) {
+    const popularLabel = popular.split('.')[0];
+    // Same name on another TLD (google.de) isn't a lookalike
+    if (popularLabel === label || popularLabel.length < 4) continue;
+    if (foldLookalikes(popularLabel) === folded) {
+      return { domain: popular, technique: 'substitution' };
+    }
+  }
+  
+  // gooogle.com, amazno.com (only distinctive names, generic words collide too easily)
+  for (const [brand, official] of Object.entries(BRAND_KEYWORDS)) {
+    if (brand === label || brand.length < 6) continue;
+    const maxDistance = brand.length >= 9 ? 2 : 1;
+    if (Math.abs(brand.length - label.length) > maxDistance) continue;
+    if (editDistance(label, brand) <= maxDistance) {
+      return { domain: official, technique: 'edit-distance' };
+    }
+  }
+  
+  return null;
+}
+
+// RFC 3492 punycode decoding for a single label (without the xn-- prefix)
+function decodePunycode(input: string): string {
+  const base = 36;
+  const tMin = 1;
+  const tMax = 26;
+  const skew = 38;
+  const damp = 700;
+  
+  const adapt = (delta: number, numPoints: number, firstTime: boolean): number => {
+    delta = firstTime ? Math.floor(delta / damp) : Math.floor(delta / 2);
+    delta += Math.floor(delta / numPoints);
+    let k = 0;
+    while (delta > ((base - tMin) * tMax) / 2) {
+      delta = Math.floor(delta / (base - tMin));
+      k += base;
+    }
+    return k + Math.floor(((base - tMin + 1) * delta) / (delta + skew));
+  };
+  
+  const toDigit = (code: number): number => {
+    if (code >= 0x30 && code <= 0x39) return code - 22; // 0-9 -> 26-35
+    if (code >= 0x41 && code <= 0x5A) return code - 0x41;
+    if (code >= 0x61 && code <= 0x7A) return code - 0x61;
+    return base;
+  };
+  
+  const output: number[] = [];
+  const basicLength = Math.max(input.lastIndexOf('-'), 0);
+  for (let j = 0; j < basicLength; j++) {
+    const code = input.charCodeAt(j);
+    if (code >= 0x80) {
+      throw new Error('Invalid punycode');
+    }
+    output.push(code);
+  }
+  
+  let n = 0x80;
+  let bias = 72;
+  let i = 0;
+  
+  for (let index = basicLength > 0 ? basicLength + 1 : 0; index < input.length;) {
+    const oldI = i;
+    for (let w = 1, k = base; ; k += base) {
+      if (index >= input.length) {
+        throw new Error('Invalid punycode');
+      }
+      const digit = toDigit(input.charCodeAt(index++));
+      if (digit >= base) {
+        throw new Error('Invalid punycode');
+      }
+      i += digit * w;
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < t) break;
+      w *= base - t;
+    }
+    
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    if (n > 0x10FFFF) {
+      throw new Error('Invalid punycode');
+    }
+    output.splice(i, 0, n);
+    i++;
+  }
+  
+  return String.fromCodePoint(...output);
+}
+
+// xn--80ak6aa92e.com -> аррӏе.com (null if a label doesn't decode)
+function toUnicodeHostname(hostname: string): string | null {
+  try {
+    return hostname
+      .split('.')
+      .map(label => (label.toLowerCase().startsWith('xn--') ? decodePunycode(label.slice(4)) : label))
+      .join('.');
+  } catch {
+    return null;
+  }
+}
+
+// Scripts we tell apart; anything else (digits, hyphen, marks) counts as Common
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Georgian', /\p{Script=Georgian}/u],
+  ['Cherokee', /\p{Script=Cherokee}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Hiragana', /\p{Script=Hiragana}/u],
+  ['Katakana', /\p{Script=Katakana}/u],
+  ['Bopomofo', /\p{Script=Bopomofo}/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+];
+
+// Script mixes UTS #39 "highly restrictive" allows (CJK writing systems mix with Latin)
+const ALLOWED_SCRIPT_MIXES = [
+  ['Latin', 'Han', 'Hiragana', 'Katakana'],
+  ['Latin', 'Han', 'Bopomofo'],
+  ['Latin', 'Han', 'Hangul'],
+];
+
+function getScripts(label: string): Set<string> {
+  const scripts = new Set<string>();
+  for (const char of label) {
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+    if (match) {
+      scripts.add(match[0]);
+    } else if (/[^\p{Script=Common}\p{Script=Inherited}]/u.test(char)) {
+      scripts.add('Other');
+    }
+  }
+  return scripts;
+}
+
+// UTS #39 skeleton: decompose, map every confusable to its prototype, drop diacritics
+function computeSkeleton(text: string): string {
+  const mapped = Array.from(text.normalize('NFD'))
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('');
+  return mapped.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+interface IdnAnalysis {
+  unicodeHostname: string | null;
+  signals: RiskSignal[];
+  lookalike: LookalikeMatch | null;
+}
+
+// Decode IDN labels and look for mixed-script and whole-script confusables.
+// A legitimate single-script name (münchen.de, россия.рф) produces no signals.
+function analyzeIdn(hostname: string): IdnAnalysis {
+  const signals: RiskSignal[] = [];
+  const host = hostname.toLowerCase();
+  
+  if (!host.split('.').some(label => label.startsWith('xn--'))) {
+    return { unicodeHostname: null, signals, lookalike: null };
+  }
+  
+  const unicodeHostname = toUnicodeHostname(host);
+  if (!unicodeHostname) {
+    signals.push({
+      category: SignalCategory.Domain,
+      reason: 'Malformed internationalized domain',
+      weight: 30,
+    });
+    return { unicodeHostname: null, signals, lookalike: null };
+  }
+  
+  for (const label of unicodeHostname.split('.')) {
+    const scripts = getScripts(label);
+    if (scripts.size <= 1) {
+      // Whole-script confusable: a non-Latin label made only of Latin lookalikes
+      const [script] = Array.from(scripts);
+      const skeleton = computeSkeleton(label);
+      if (script && script !== 'Latin' && /^[a-z0-9-]+$/.test(skeleton)) {
+        signals.push({
+          category: SignalCategory.Domain,
+          reason: `${script} letters that read as "${skeleton}"`,
+          weight: 40,
+        });
+      }
+      continue;
+    }
+    
+    const allowed = ALLOWED_SCRIPT_MIXES.some(mix => Array.from(scripts).every(script => mix.includes(script)));
+    if (!allowed) {
+      signals.push({
+        category: SignalCategory.Domain,
+        reason: `Mixed scripts in domain (${Array.from(scripts).join(' + ')})`,
+        weight: 40,
+      });
+    }
+  }
+  
+  // Does the whole name collapse onto a site people know?
+  let lookalike: LookalikeMatch | null = null;
+  if (signals.length > 0) {
+    const skeletonHost = computeSkeleton(unicodeHostname);
+    const registrable = getRegistrableDomain(skeletonHost);
+    if (skeletonHost !== host && POPULAR_DOMAIN_SET.has(registrable)) {
+      lookalike = { domain: registrable, technique: 'homograph' };
+    }
+  }
+  
+  return { unicodeHostname, signals, lookalike };
+}
+
+// See if the anchor text says one domain but the link goes somewhere else.
+// Compared by registrable domain, so docs.example.co.uk vs example.co.uk is fine but evil.co.uk isn't.
+function checkAnchorTextMismatch(
+  anchorText: string,
+  hrefDomain: string
+): { textDomain: string; linkDomain: string } | null {
+  const domainPattern = /(?:https?:\/\/)?([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i;
+  const match = anchorText.match(domainPattern);
+  
+  if (match && match[1]) {
+    const textDomain = getRegistrableDomain(match[1]);
+    const linkDomain = getRegistrableDomain(hrefDomain);
+    
+    if (textDomain !== linkDomain) {
+      return { textDomain, linkDomain };
+    }
+  }
+  
+  return null;
+}
+
+// Flag HTTP links when coming from HTTPS (or chrome-extension for demo)
+function checkHttpsDowngrade(targetUrl: URL, pageOrigin: string): boolean {
+  try {
+    const pageUrl = new URL(pageOrigin);
+    return (pageUrl.protocol === 'https:' || pageUrl.protocol === 'chrome-extension:') && targetUrl.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Quick checks we can do without hitting the network
+const MAX_SUBDOMAIN_LENGTH = 40;
+const MAX_SUBDOMAIN_LEVELS = 3;
+
+// Classic phishing tells in the shape of the URL itself
+function checkUrlStructure(url: URL): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  const hostname = extractDomain(url);
+  
+  if (isIpAddress(hostname)) {
+    signals.push({
+      category: SignalCategory.Domain,
+      reason: 'Raw IP address instead of a domain name',
+      weight: 35,
+    });
+  }
+  
+  // https://paypal.com@evil.tld goes to evil.tld
+  if (url.username || url.password) {
+    const userinfo = url.username || '…';
+    signals.push({
+      category: SignalCategory.Domain,
+      reason: `Text before "@" hides the real host (${userinfo.length > 30 ? `${userinfo.slice(0, 30)}…` : userinfo}@)`,
+      weight: 50,
+    });
+  }
+  
+  // URL drops default ports, so anything left here is explicit
+  if (url.port) {
+    signals.push({
+      category: SignalCategory.Transport,
+      reason: `Non-standard port (:${url.port})`,
+      weight: 15,
+    });
+  }
+  
+  if (!isIpAddress(hostname)) {
+    const registrable = getRegistrableDomain(hostname);
+    const subdomain = hostname === registrable ? '' : hostname.slice(0, -registrable.length - 1);
+    const levels = subdomain ? subdomain.split('.').length : 0;
+    
+    if (subdomain.length > MAX_SUBDOMAIN_LENGTH) {
+      signals.push({
+        category: SignalCategory.Domain,
+        reason: `Very long subdomain (${subdomain.length} characters)`,
+        weight: 15,
+      });
+    }
+    if (levels > MAX_SUBDOMAIN_LEVELS) {
+      signals.push({
+        category: SignalCategory.Domain,
+        reason: `Deeply nested subdomain (${levels} levels)`,
+        weight: 15,
+      });
+    }
+    
+    const tld = hostname.slice(hostname.lastIndexOf('.') + 1);
+    const reputation = TLD_REPUTATION[tld];
+    if (reputation) {
+      signals.push({
+        category: SignalCategory.Domain,
+        reason: `Risky TLD .${tld} (${reputation.note})`,
+        weight: reputation.weight,
+      });
+    }
+  }
+  
+  return signals;
+}
+
+function performLexicalChecks(
+  url: URL,
+  anchorText: string,
+  pageOrigin: string
+): {
+  signals: RiskSignal[];
+  textMismatch: { textDomain: string; linkDomain: string } | null;
+  lookalike: LookalikeMatch | null;
+} {
+  const signals: RiskSignal[] = [];
+  let textMismatch = null;
+  
+  const idn = analyzeIdn(url.hostname);
+  signals.push(...idn.signals);
+  
+  const lookalike = idn.lookalike ?? detectTyposquat(url.hostname);
+  if (lookalike) {
+    const reasons: Record<LookalikeMatch['technique'], string> = {
+      'homograph': `Homograph of ${lookalike.domain}`,
+      'substitution': `Lookalike of ${lookalike.domain}`,
+      'edit-distance': `Misspelling of ${lookalike.domain}`,
+      'brand-in-subdomain': `Uses ${lookalike.domain} brand in subdomain`,
+      'brand-combo': `Uses ${lookalike.domain} brand in name`,
+    };
+    const weights: Record<LookalikeMatch['technique'], number> = {
+      'homograph': 50,
+      'substitution': 45,
+      'edit-distance': 40,
+      'brand-in-subdomain': 40,
+      'brand-combo': 30,
+    };
+    signals.push({
+      category: SignalCategory.Domain,
+      reason: reasons[lookalike.technique],
+      weight: weights[lookalike.technique],
+    });
+  }
+  
+  signals.push(...checkUrlStructure(url));
+  
+  textMismatch = checkAnchorTextMismatch(anchorText, url.hostname);
+  
+  if (checkHttpsDowngrade(url, pageOrigin)) {
+    signals.push({
+      category: SignalCategory.Transport,
+      reason: 'HTTP (not secure)',
+      weight: 20,
+    });
+  }
+  
+  return { signals, textMismatch, lookalike };
+}
+
+// Lexical signals of the wrapper hosts, each reason naming the host it is about. The anchor
+// text describes the destination, so it is only compared there.
+function getWrapperSignals(wrappers: URL[], pageOrigin: string): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  const seen = new Set<string>();
+  for (const wrapper of wrappers) {
+    const domain = extractDomain(wrapper);
+    for (const signal of performLexicalChecks(wrapper, '', pageOrigin).signals) {
+      const reason = `${signal.reason} (${domain})`;
+      if (!seen.has(reason)) {
+        seen.add(reason);
+        signals.push({ ...signal, reason });
+      }
+    }
+  }
+  return signals;
+}
+
+// Guess link type from Content-Type header
+function determineLinkTypeFromContentType(
+  contentType: string,
+  contentDisposition: string | null
+): LinkType {
+  const ct = contentType.toLowerCase();
+  
+  if (contentDisposition?.toLowerCase().includes('attachment')) {
+    return LinkType.Download;
+  }
+  
+  if (ct.includes('application/pdf')) {
+    return LinkType.PDF;
+  }
+  
+  if (ct.startsWith('image/')) {
+    return LinkType.Image;
+  }
+  
+  if (ct.startsWith('video/') || ct.includes('application/x-mpegurl')) {
+    return LinkType.Video;
+  }
+  
+  const downloadTypes = [
+    'application/octet-stream',
+    'application/x-msdownload',
+    'application/x-msdos-program',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-rar-compressed',
+    'application/x-7z-compressed',
+    'application/x-tar',
+    'application/x-gzip',
+  ];
+  
+  if (downloadTypes.some(type => ct.includes(type))) {
+    return LinkType.Download;
+  }
+  
+  if (ct.includes('text/html') || ct.includes('application/xhtml')) {
+    return LinkType.Webpage;
+  }
+  
+  return LinkType.Webpage;
+}
+
+// Fallback: guess link type from the URL path
+function guesslinkTypeFromUrl(url: string): LinkType | null {
+  try {
+    const urlObj = new URL(url);
     const pathname = urlObj.pathname.toLowerCase();
     
     if (pathname.endsWith('.pdf') || pathname.includes('/pdf/')) {
@@ -449,63 +1475,601 @@ function guesslinkTypeFromUrl(url: string): LinkType | null {
   }
 }
 
-// Check file signature (magic bytes) to confirm file type
-function checkMagicBytes(bytes: Uint8Array): LinkType | null {
-  if (bytes.length >= 4 && 
-      bytes[0] === 0x25 && bytes[1] === 0x50 && 
-      bytes[2] === 0x44 && bytes[3] === 0x46) {
-    return LinkType.PDF;
-  }
+// Check file signature (magic bytes) to confirm file type
+function checkMagicBytes(bytes: Uint8Array): LinkType | null {
+  if (bytes.length >= 4 && 
+      bytes[0] === 0x25 && bytes[1] === 0x50 && 
+      bytes[2] === 0x44 && bytes[3] === 0x46) {
+    return LinkType.PDF;
+  }
+  
+  if (bytes.length >= 4 && 
+      bytes[0] === 0x50 && bytes[1] === 0x4B && 
+      (bytes[2] === 0x03 || bytes[2] === 0x05)) {
+    return LinkType.Download;
+  }
+  
+  if (bytes.length >= 2 && bytes[0] === 0x4D && bytes[1] === 0x5A) {
+    return LinkType.Download;
+  }
+  
+  if (bytes.length >= 4 && 
+      bytes[0] === 0x7F && bytes[1] === 0x45 && 
+      bytes[2] === 0x4C && bytes[3] === 0x46) {
+    return LinkType.Download;
+  }
+  
+  return null;
+}
+
+interface HeadResult {
+  finalUrl: string;
+  contentType: string;
+  contentLength: number | null;
+  contentDisposition: string | null;
+  redirectCount: number;
+  signals: RiskSignal[];
+  hops: RedirectHop[];
+  refusedSpace?: AddressSpace; // stopped before following a redirect into a private network
+  status?: number; // of the final response, when there was one
+  connectionError?: string; // net error code (net::ERR_NAME_NOT_RESOLVED) or fetch's message when unknown
+}
+
+// What the network says about a link, whichever page it is hovered on and whatever its text.
+// Only this is cached; lexical checks, lists and rules are applied again on every hover.
+interface NetworkFacts {
+  finalUrl: string;
+  type: LinkType;
+  size: number | null;
+  redirectCount: number;
+  hops: RedirectHop[];
+  signals: RiskSignal[];
+  refusedSpace?: AddressSpace;
+  status?: number;
+  connectionError?: string;
+}
+
+function createRedirectHop(url: string, status: number, previous?: RedirectHop): RedirectHop {
+  if (!previous) {
+    return { url, status, domainChanged: false, downgraded: false };
+  }
+  const from = new URL(previous.url);
+  const to = new URL(url);
+  return {
+    url,
+    status,
+    domainChanged: getRegistrableDomain(from.hostname) !== getRegistrableDomain(to.hostname),
+    downgraded: from.protocol === 'https:' && to.protocol === 'http:',
+  };
+}
+
+// What the shape of the chain says, on top of the plain redirect count
+function getRedirectChainSignals(hops: RedirectHop[]): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  
+  const crossDomainHops = hops.filter(hop => hop.domainChanged).length;
+  if (crossDomainHops > 0) {
+    signals.push({
+      category: SignalCategory.Redirect,
+      reason: crossDomainHops === 1 ? 'Redirects to another domain' : `Redirects across ${crossDomainHops + 1} domains`,
+      weight: 15 * crossDomainHops,
+    });
+  }
+  
+  if (hops.some(hop => hop.downgraded)) {
+    signals.push({
+      category: SignalCategory.Transport,
+      reason: 'Redirect downgrades HTTPS to HTTP',
+      weight: 40,
+    });
+  }
+  
+  return signals;
+}
+
+// True when the hover that started this work has been cancelled
+function isCancelled(signal?: AbortSignal): boolean {
+  return signal?.aborted === true;
+}
+
+// What went wrong while building a preview; content.ts has a message for each kind
+type PreviewErrorKind = 'network' | 'timeout' | 'http' | 'bot-protection' | 'parse' | 'ai-quota' | 'ai-crash';
+
+class PreviewError extends Error {
+  readonly kind: PreviewErrorKind;
+  readonly status?: number;
+
+  constructor(kind: PreviewErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'PreviewError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+// What the popup gets in previewUpdate.error
+interface PreviewErrorInfo {
+  kind: PreviewErrorKind;
+  message: string;
+  status?: number;
+  retryable: boolean; // a second try has a real chance of working
+  retryAt?: number; // when the negative cache lets the next attempt through
+  cached?: boolean; // replayed from the negative cache instead of tried again
+}
+
+function toPreviewErrorInfo(error: unknown): PreviewErrorInfo {
+  const previewError = error instanceof PreviewError
+    ? error
+    : new PreviewError('network', error instanceof Error ? error.message : String(error));
+  
+  const { kind, status } = previewError;
+  const retryable =
+    kind === 'network' ||
+    kind === 'timeout' ||
+    kind === 'ai-crash' ||
+    (kind === 'http' && status !== undefined && (status >= 500 || status === 429));
+  
+  return { kind, message: previewError.message, status, retryable };
+}
+
+// Prompt API and Summarizer errors are DOMExceptions; only quota needs telling apart
+function createAIError(error: unknown): PreviewError {
+  const name = error instanceof DOMException ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  return new PreviewError(name === 'QuotaExceededError' ? 'ai-quota' : 'ai-crash', message);
+}
+
+// Why a request is being made; each purpose gets its own timeout and byte cap
+type FetchPurpose = 'head' | 'sniff' | 'page' | 'document' | 'image' | 'title' | 'archive';
+
+// honest: a plain extension request. compat: look like a desktop Chrome navigation,
+// for sites that turn away anything else.
+type HeaderProfile = 'honest' | 'compat';
+
+interface NetworkPolicy {
+  headerProfile: HeaderProfile;
+  credentials: RequestCredentials;
+  timeouts: Record<FetchPurpose, number>; // ms
+  byteCaps: Record<FetchPurpose, number>; // bytes read from the body; 0 for HEAD
+  logRequests: boolean;
+  archiveEndpoint: string; // Wayback-style availability API for dead links; empty turns lookups off
+}
+
+const DEFAULT_NETWORK_POLICY: NetworkPolicy = {
+  headerProfile: 'honest',
+  credentials: 'omit',
+  timeouts: { head: 1500, sniff: 1500, page: 3000, document: 8000, image: 8000, title: 5000, archive: 5000 },
+  byteCaps: { head: 0, sniff: 4096, page: 49152, document: 2 * 1024 * 1024, image: 5 * 1024 * 1024, title: 65536, archive: 16384 },
+  logRequests: false,
+  archiveEndpoint: 'https://archive.org/wayback/available',
+};
+
+let networkPolicy: NetworkPolicy = DEFAULT_NETWORK_POLICY;
+
+// Stored settings may only override part of the policy
+function mergeNetworkPolicy(stored: Partial<NetworkPolicy> | undefined): NetworkPolicy {
+  return {
+    ...DEFAULT_NETWORK_POLICY,
+    ...stored,
+    timeouts: { ...DEFAULT_NETWORK_POLICY.timeouts, ...stored?.timeouts },
+    byteCaps: { ...DEFAULT_NETWORK_POLICY.byteCaps, ...stored?.byteCaps },
+  };
+}
+
+const ACCEPT_HEADERS: Record<FetchPurpose, string> = {
+  head: '*/*',
+  sniff: '*/*',
+  page: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  document: 'application/pdf,*/*;q=0.8',
+  image: 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8',
+  title: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  archive: 'application/json',
+};
+
+function buildRequestHeaders(url: string, purpose: FetchPurpose, extra?: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = { 'Accept': ACCEPT_HEADERS[purpose] };
+  
+  if (networkPolicy.headerProfile === 'compat') {
+    Object.assign(headers, {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Accept-Encoding': 'gzip, deflate, br',
+      'Referer': new URL(url).origin + '/',
+      'Sec-Fetch-Dest': 'document',
+      'Sec-Fetch-Mode': 'navigate',
+      'Sec-Fetch-Site': 'cross-site',
+      'Sec-Fetch-User': '?1',
+      'Upgrade-Insecure-Requests': '1',
+    });
+  }
+  
+  return { ...headers, ...extra };
+}
+
+interface NetworkRequest {
+  purpose: FetchPurpose;
+  method?: 'GET' | 'HEAD';
+  redirect?: RequestRedirect;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+interface NetworkLogEntry {
+  url: string;
+  method: string;
+  purpose: FetchPurpose;
+  status: number | null; // null when no response arrived
+  bytes: number;
+  queuedMs: number; // waiting on the rate limiter before the request went out
+  durationMs: number;
+  outcome: 'ok' | 'timeout' | 'cancelled' | 'error';
+  startedAt: number;
+}
+
+const MAX_NETWORK_LOG_ENTRIES = 100;
+const networkLog: NetworkLogEntry[] = [];
+
+function recordNetworkRequest(entry: NetworkLogEntry): void {
+  networkLog.push(entry);
+  if (networkLog.length > MAX_NETWORK_LOG_ENTRIES) {
+    networkLog.shift();
+  }
+  if (networkPolicy.logRequests) {
+    console.log(
+      `[Network] ${entry.method} ${entry.url} (${entry.purpose}) -> ${entry.status ?? entry.outcome}`,
+      `${entry.bytes} bytes in ${entry.durationMs}ms`
+    );
+  }
+}
+
+// Each site gets a token bucket so sweeping the mouse over a results page can't hammer one
+// host; on top of that only a few requests run at once across all sites.
+const SITE_RATE_LIMIT = { tokensPerSecond: 2, burst: 4 };
+const MAX_CONCURRENT_FETCHES = 6;
+const MAX_IDLE_BUCKETS = 200;
+
+// Responses that mean "slow down"; the site's bucket is drained so we back off
+const THROTTLE_STATUSES = new Set([429, 503, 999]);
+
+class TokenBucket {
+  private tokens: number = SITE_RATE_LIMIT.burst;
+  private lastRefill = Date.now();
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      SITE_RATE_LIMIT.burst,
+      this.tokens + ((now - this.lastRefill) / 1000) * SITE_RATE_LIMIT.tokensPerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  // Take a token if there is one; otherwise how long (ms) until there will be
+  tryTake(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / SITE_RATE_LIMIT.tokensPerSecond) * 1000);
+  }
+
+  drain(): void {
+    this.refill();
+    this.tokens = -SITE_RATE_LIMIT.burst;
+  }
+
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= SITE_RATE_LIMIT.burst;
+  }
+}
+
+interface QueuedFetch {
+  site: string;
+  resolve: (release: () => void) => void;
+}
+
+const siteBuckets = new Map<string, TokenBucket>();
+const fetchQueue: QueuedFetch[] = [];
+let activeFetches = 0;
+let fetchQueueTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getSiteBucket(site: string): TokenBucket {
+  let bucket = siteBuckets.get(site);
+  if (!bucket) {
+    if (siteBuckets.size >= MAX_IDLE_BUCKETS) {
+      for (const [key, idle] of siteBuckets) {
+        if (idle.isFull()) siteBuckets.delete(key);
+      }
+    }
+    bucket = new TokenBucket();
+    siteBuckets.set(site, bucket);
+  }
+  return bucket;
+}
+
+// Start whatever queued requests are allowed to go now, oldest first. A site that is out of
+// tokens doesn't hold up requests to other sites behind it.
+function pumpFetchQueue(): void {
+  if (fetchQueueTimer) {
+    clearTimeout(fetchQueueTimer);
+    fetchQueueTimer = null;
+  }
+  
+  let nextWait = Infinity;
+  for (let i = 0; i < fetchQueue.length && activeFetches < MAX_CONCURRENT_FETCHES; ) {
+    const entry = fetchQueue[i];
+    const wait = getSiteBucket(entry.site).tryTake();
+    if (wait > 0) {
+      nextWait = Math.min(nextWait, wait);
+      i++;
+      continue;
+    }
+    
+    fetchQueue.splice(i, 1);
+    activeFetches++;
+    let released = false;
+    entry.resolve(() => {
+      if (released) return;
+      released = true;
+      activeFetches--;
+      pumpFetchQueue();
+    });
+  }
+  
+  if (fetchQueue.length > 0 && activeFetches < MAX_CONCURRENT_FETCHES && nextWait < Infinity) {
+    fetchQueueTimer = setTimeout(pumpFetchQueue, nextWait);
+  }
+}
+
+// Wait for a slot to fetch from this site. Requests whose hover ended while they were
+// still queued are dropped without ever going out.
+function acquireFetchSlot(site: string, signal?: AbortSignal): Promise<() => void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = fetchQueue.indexOf(entry);
+      if (index !== -1) {
+        fetchQueue.splice(index, 1);
+        reject(signal!.reason);
+      }
+    };
+    const entry: QueuedFetch = {
+      site,
+      resolve: (release) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    fetchQueue.push(entry);
+    pumpFetchQueue();
+  });
+}
+
+// Read at most maxBytes of a body, then drop the rest of the stream
+async function readCappedBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+  
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+  
+  while (totalLength < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    
+    chunks.push(value);
+    totalLength += value.length;
+  }
+  if (totalLength >= maxBytes) {
+    reader.cancel().catch(() => {});
+  }
+  
+  const combined = new Uint8Array(Math.min(totalLength, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, combined.length - offset);
+    combined.set(part, offset);
+    offset += part.length;
+  }
+  return combined;
+}
+
+// Every outbound request goes through here so timeouts, byte caps, credentials and headers
+// follow one policy. `read` runs inside the timeout and gets the capped body on GETs.
+async function networkFetch<T>(
+  url: string,
+  request: NetworkRequest,
+  read: (response: Response, body: Uint8Array | null) => T | Promise<T>
+): Promise<T> {
+  const method = request.method ?? 'GET';
+  const site = getRegistrableDomain(new URL(url).hostname);
+  const queuedAt = Date.now();
+  const release = await acquireFetchSlot(site, request.signal);
+  const queuedMs = Date.now() - queuedAt;
+  
+  // The timeout only starts once the request is actually on the wire
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), networkPolicy.timeouts[request.purpose]);
+  const startedAt = Date.now();
+  let status: number | null = null;
+  let bytes = 0;
+  
+  try {
+    const response = await fetch(url, {
+      method,
+      credentials: networkPolicy.credentials,
+      redirect: request.redirect ?? 'follow',
+      headers: buildRequestHeaders(url, request.purpose, request.headers),
+      signal: request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal,
+    });
+    status = response.status;
+    
+    if (THROTTLE_STATUSES.has(status)) {
+      getSiteBucket(site).drain();
+    }
+    
+    const body = method === 'GET' && response.ok
+      ? await readCappedBody(response, networkPolicy.byteCaps[request.purpose])
+      : null;
+    bytes = body?.length ?? 0;
+    
+    const result = await read(response, body);
+    recordNetworkRequest({ url, method, purpose: request.purpose, status, bytes, queuedMs, durationMs: Date.now() - startedAt, outcome: 'ok', startedAt });
+    return result;
+  } catch (error) {
+    const outcome = isCancelled(request.signal) ? 'cancelled' : controller.signal.aborted ? 'timeout' : 'error';
+    recordNetworkRequest({ url, method, purpose: request.purpose, status, bytes, queuedMs, durationMs: Date.now() - startedAt, outcome, startedAt });
+    
+    if (outcome === 'timeout') {
+      throw new PreviewError('timeout', 'Request timed out');
+    }
+    // fetch() itself rejects with a TypeError for DNS, connection and CORS failures
+    if (error instanceof TypeError) {
+      throw new PreviewError('network', error.message);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    release();
+  }
+}
+
+// webRequest events for our own requests, matched to the fetch() that caused them by URL.
+// The event can arrive just before or just after fetch() settles.
+class RequestEventLog<T> {
+  private events = new Map<string, T>();
+  private waiters = new Map<string, (event: T) => void>();
   
-  if (bytes.length >= 4 && 
-      bytes[0] === 0x50 && bytes[1] === 0x4B && 
-      (bytes[2] === 0x03 || bytes[2] === 0x05)) {
-    return LinkType.Download;
+  // Requests go out without the fragment
+  private static key(url: string): string {
+    return url.split('#')[0];
   }
   
-  if (bytes.length >= 2 && bytes[0] === 0x4D && bytes[1] === 0x5A) {
-    return LinkType.Download;
+  record(url: string, event: T): void {
+    const key = RequestEventLog.key(url);
+    const waiter = this.waiters.get(key);
+    if (waiter) {
+      this.waiters.delete(key);
+      waiter(event);
+      return;
+    }
+    this.events.set(key, event);
+    setTimeout(() => {
+      if (this.events.get(key) === event) {
+        this.events.delete(key);
+      }
+    }, 5000);
   }
   
-  if (bytes.length >= 4 && 
-      bytes[0] === 0x7F && bytes[1] === 0x45 && 
-      bytes[2] === 0x4C && bytes[3] === 0x46) {
-    return LinkType.Download;
+  take(url: string): Promise<T | null> {
+    const key = RequestEventLog.key(url);
+    const event = this.events.get(key);
+    if (event !== undefined) {
+      this.events.delete(key);
+      return Promise.resolve(event);
+    }
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => {
+        this.waiters.delete(key);
+        resolve(null);
+      }, REQUEST_EVENT_WAIT_MS);
+      this.waiters.set(key, (received) => {
+        clearTimeout(timeoutId);
+        resolve(received);
+      });
+    });
   }
-  
-  return null;
 }
 
-interface HeadResult {
-  finalUrl: string;
-  contentType: string;
-  contentLength: number | null;
-  contentDisposition: string | null;
-  redirectCount: number;
-  signals: RiskSignal[];
+// How long to wait for the webRequest event once fetch() has already settled
+const REQUEST_EVENT_WAIT_MS = 250;
+
+// Only our own requests; pages and other extensions redirect and fail all the time
+function isOwnRequest(details: chrome.webRequest.ResourceRequest): boolean {
+  return details.tabId === -1 && details.initiator === self.location.origin;
+}
+
+// In an extension, fetch() with redirect: 'manual' only gets an opaque redirect (status 0, no
+// Location), so each hop's status and target are read off webRequest instead
+interface ObservedRedirect {
+  status: number;
+  location: string;
+}
+
+const observedRedirects = new RequestEventLog<ObservedRedirect>();
+let warnedRedirectsUnobserved = false;
+
+chrome.webRequest.onHeadersReceived.addListener((details) => {
+  if (!isOwnRequest(details) || details.statusCode < 300 || details.statusCode >= 400) return;
+  const location = details.responseHeaders?.find(header => header.name.toLowerCase() === 'location')?.value;
+  if (!location) return;
+  
+  try {
+    observedRedirects.record(details.url, { status: details.statusCode, location: new URL(location, details.url).href });
+  } catch {
+    // Unparseable Location; the hop ends the chain
+  }
+}, { urls: ['<all_urls>'] }, ['responseHeaders']);
+
+// fetch() reports every failure as "Failed to fetch"; the net error code says which it was
+const observedErrors = new RequestEventLog<string>();
+
+chrome.webRequest.onErrorOccurred.addListener((details) => {
+  if (isOwnRequest(details)) {
+    observedErrors.record(details.url, details.error);
+  }
+}, { urls: ['<all_urls>'] });
+
+// Status and target of a response fetched with redirect: 'manual'
+async function readRedirect(url: string, response: Response): Promise<{ status: number; location: string | null }> {
+  if (response.type !== 'opaqueredirect') {
+    return { status: response.status, location: response.headers.get('Location') };
+  }
+  
+  const redirect = await observedRedirects.take(url);
+  if (redirect) {
+    return redirect;
+  }
+  if (!warnedRedirectsUnobserved) {
+    // Without the event the chain ends here, and no redirect signal can fire
+    warnedRedirectsUnobserved = true;
+    console.warn('[Network] Redirect hops are not being recorded; is the webRequest permission granted?');
+  }
+  return { status: response.status, location: null };
 }
 
 // HEAD request, following redirects
-async function performHeadRequest(url: URL): Promise<HeadResult> {
+async function performHeadRequest(
+  url: URL,
+  signal?: AbortSignal,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<HeadResult> {
   const signals: RiskSignal[] = [];
+  const hops: RedirectHop[] = [];
   let currentUrl = url.href;
   let redirectCount = 0;
   const maxRedirects = 3;
-  const timeout = 1500;
   
   while (redirectCount <= maxRedirects) {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const response = await networkFetch(
+        currentUrl,
+        { purpose: 'head', method: 'HEAD', redirect: 'manual', signal },
+        (headResponse) => headResponse
+      );
       
-      const response = await fetch(currentUrl, {
-        method: 'HEAD',
-        credentials: 'omit',
-        redirect: 'manual',
-        signal: controller.signal,
-      });
+      const { status, location } = await readRedirect(currentUrl, response);
       
-      clearTimeout(timeoutId);
+      hops.push(createRedirectHop(currentUrl, status, hops[hops.length - 1]));
       
       if (response.status === 405) {
         const guessedType = guesslinkTypeFromUrl(currentUrl);
@@ -528,29 +2092,47 @@ async function performHeadRequest(url: URL): Promise<HeadResult> {
           contentDisposition: null,
           redirectCount,
           signals,
+          hops,
         };
       }
       
-      if (response.status >= 300 && response.status < 400) {
-        const location = response.headers.get('Location');
+      if (status >= 300 && status < 400) {
         if (location) {
           redirectCount++;
           if (redirectCount > maxRedirects) {
             signals.push({
-              level: RiskLevel.Amber,
+              category: SignalCategory.Redirect,
               reason: `Redirects x${redirectCount}`,
+              weight: 10 * redirectCount,
             });
             break;
           }
           currentUrl = new URL(location, currentUrl).href;
+          
+          // A public redirect can still point into the user's network
+          const refusedSpace = isRefused?.(new URL(currentUrl));
+          if (refusedSpace) {
+            hops.push(createRedirectHop(currentUrl, 0, hops[hops.length - 1]));
+            return {
+              finalUrl: currentUrl,
+              contentType: '',
+              contentLength: null,
+              contentDisposition: null,
+              redirectCount,
+              signals,
+              hops,
+              refusedSpace,
+            };
+          }
           continue;
         }
       }
       
       if (redirectCount >= 2) {
         signals.push({
-          level: RiskLevel.Amber,
+          category: SignalCategory.Redirect,
           reason: `Redirects x${redirectCount}`,
+          weight: 10 * redirectCount,
         });
       }
       
@@ -565,8 +2147,18 @@ async function performHeadRequest(url: URL): Promise<HeadResult> {
         contentDisposition,
         redirectCount,
         signals,
+        hops,
+        status,
       };
     } catch (error) {
+      if (isCancelled(signal)) {
+        throw error;
+      }
+      
+      if (hops[hops.length - 1]?.url !== currentUrl) {
+        hops.push(createRedirectHop(currentUrl, 0, hops[hops.length - 1]));
+      }
+      
       const guessedType = guesslinkTypeFromUrl(currentUrl);
       let fallbackContentType = 'text/html';
       
@@ -585,6 +2177,10 @@ async function performHeadRequest(url: URL): Promise<HeadResult> {
         contentDisposition: null,
         redirectCount,
         signals,
+        hops,
+        connectionError: error instanceof PreviewError && error.kind === 'network'
+          ? await observedErrors.take(currentUrl) ?? error.message
+          : undefined,
       };
     }
   }
@@ -607,58 +2203,299 @@ async function performHeadRequest(url: URL): Promise<HeadResult> {
     contentDisposition: null,
     redirectCount,
     signals,
+    hops,
   };
 }
 
 // Optional: fetch first 4KB to check magic bytes
-async function performSniff(url: string): Promise<LinkType | null> {
+async function performSniff(url: string, signal?: AbortSignal): Promise<LinkType | null> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 1500);
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      credentials: 'omit',
-      headers: {
-        'Range': 'bytes=0-4095', // Just the first 4KB
+    const bytes = await networkFetch(
+      url,
+      {
+        purpose: 'sniff',
+        headers: { 'Range': `bytes=0-${networkPolicy.byteCaps.sniff - 1}` }, // Just the first 4KB
+        signal,
       },
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    
-    const buffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(buffer);
+      (_response, body) => body
+    );
     
-    return checkMagicBytes(bytes);
-  } catch {
+    return bytes ? checkMagicBytes(bytes) : null;
+  } catch (error) {
+    if (isCancelled(signal)) {
+      throw error;
+    }
     return null;
   }
 }
 
-// Turn signals into a risk level (red > amber > green)
-function scoreRisk(signals: RiskSignal[]): { risk: RiskLevel; reasons: string[] } {
-  if (signals.length === 0) {
-    return { risk: RiskLevel.Green, reasons: [] };
+async function fetchNetworkFacts(
+  url: URL,
+  signal?: AbortSignal,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<NetworkFacts> {
+  const headResult = await performHeadRequest(url, signal, isRefused);
+  const signals = [...headResult.signals, ...getRedirectChainSignals(headResult.hops)];
+  const facts: NetworkFacts = {
+    finalUrl: headResult.finalUrl,
+    type: LinkType.Webpage,
+    size: headResult.contentLength,
+    redirectCount: headResult.redirectCount,
+    hops: headResult.hops,
+    signals,
+    refusedSpace: headResult.refusedSpace,
+    status: headResult.status,
+    connectionError: headResult.connectionError,
+  };
+  
+  if (headResult.refusedSpace) {
+    return { ...facts, type: guesslinkTypeFromUrl(headResult.finalUrl) ?? LinkType.Webpage };
   }
   
-  const redSignals = signals.filter(s => s.level === RiskLevel.Red);
-  if (redSignals.length > 0) {
-    return {
-      risk: RiskLevel.Red,
-      reasons: redSignals.slice(0, 2).map(s => s.reason),
-    };
+  let type = determineLinkTypeFromContentType(
+    headResult.contentType,
+    headResult.contentDisposition
+  );
+  
+  const urlBasedType = guesslinkTypeFromUrl(headResult.finalUrl);
+  if (urlBasedType) {
+    type = urlBasedType;
   }
   
-  const amberSignals = signals.filter(s => s.level === RiskLevel.Amber);
-  if (amberSignals.length > 0) {
-    return {
-      risk: RiskLevel.Amber,
-      reasons: amberSignals.slice(0, 2).map(s => s.reason),
-    };
+  // Without a GET agreeing, a dead status from HEAD says nothing either way
+  let status = headResult.status;
+  if (status !== undefined && DEAD_LINK_STATUSES.has(status)) {
+    status = await confirmStatusWithGet(headResult.finalUrl, signal) || undefined;
+  }
+  
+  // Dead links are not dangerous, but there is nothing behind them worth fetching
+  const brokenReason = getBrokenLinkReason(status, headResult.connectionError);
+  if (brokenReason) {
+    type = LinkType.Broken;
+    signals.push({
+      category: SignalCategory.Content,
+      reason: brokenReason,
+      weight: 0,
+    });
+  }
+  
+  // Never sniff a blocklisted destination; the preflight check refuses it anyway
+  const finalHostname = new URL(headResult.finalUrl).hostname;
+  if (type === LinkType.Download && headResult.contentType.includes('octet-stream') && !findListedDomain(finalHostname, domainBlocklist)) {
+    const sniffedType = await performSniff(headResult.finalUrl, signal);
+    if (sniffedType) {
+      type = sniffedType;
+      
+      if (sniffedType === LinkType.Download) {
+        signals.push({
+          category: SignalCategory.Content,
+          reason: 'Executable download',
+          weight: 60,
+        });
+      }
+    }
+  }
+  
+  return { ...facts, type, status };
+}
+
+// Whether private targets get followed depends on the hovering page, so facts that touched
+// one are neither shared across the two kinds of page nor cached
+function isPublicOnly(facts: NetworkFacts): boolean {
+  return !facts.refusedSpace
+    && [facts.finalUrl, ...facts.hops.map(hop => hop.url)]
+      .every(url => classifyAddressSpace(new URL(url).hostname) === 'public');
+}
+
+async function getNetworkFacts(
+  url: URL,
+  pageOrigin: string,
+  signal?: AbortSignal,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<NetworkFacts> {
+  const cacheKey = getSiteCacheKey(url.href);
+  const reach = canReachPrivateNetwork(pageOrigin) ? 'private' : 'public';
+  const runCheck = (requestSignal?: AbortSignal) =>
+    networkFactsRequests.run(`${reach}:${url.href}`, requestSignal, null, async (sharedSignal) => {
+      const facts = await fetchNetworkFacts(url, sharedSignal, isRefused);
+      // A failed connection that isn't a dead domain may just be this machine being offline
+      const transient = facts.connectionError !== undefined && facts.type !== LinkType.Broken;
+      if (isPublicOnly(facts) && !transient) {
+        await networkFactsCache.set(cacheKey, facts);
+      }
+      return facts;
+    });
+  
+  const cached = await networkFactsCache.get(cacheKey);
+  if (cached) {
+    if (cached.stale) {
+      networkFactsCache.revalidate(cacheKey, () => runCheck());
+    }
+    return cached.data;
+  }
+  return runCheck(signal);
+}
+
+// Statuses that mean the page is gone rather than temporarily unavailable
+const DEAD_LINK_STATUSES = new Set([404, 410]);
+
+// The only connection failure that says the link itself is dead. Being offline, TLS errors,
+// resets and ad blockers all fail the request too, but say nothing about the site.
+const DNS_NOT_FOUND = 'net::ERR_NAME_NOT_RESOLVED';
+
+function getBrokenLinkReason(status: number | undefined, connectionError: string | undefined): string | null {
+  if (connectionError === DNS_NOT_FOUND) {
+    return 'Broken link (domain not found)';
+  }
+  if (status !== undefined && DEAD_LINK_STATUSES.has(status)) {
+    return `Broken link (HTTP ${status})`;
+  }
+  return null;
+}
+
+// Plenty of servers answer HEAD with 404 for pages that exist, so a one-byte GET has the
+// last word. Resolves to 0 when that request fails as well.
+async function confirmStatusWithGet(url: string, signal?: AbortSignal): Promise<number> {
+  try {
+    return await networkFetch(
+      url,
+      { purpose: 'head', headers: { 'Range': 'bytes=0-0' }, signal },
+      (response) => response.status
+    );
+  } catch (error) {
+    if (isCancelled(signal)) {
+      throw error;
+    }
+    return 0;
+  }
+}
+
+// Add up signal weights and map the total onto a risk level.
+// Every contributing signal is kept (heaviest first) so the popup can explain the score.
+function scoreRisk(signals: RiskSignal[]): { risk: RiskLevel; score: number; reasons: string[]; signals: RiskSignal[] } {
+  const ranked = [...signals].sort((a, b) => b.weight - a.weight);
+  const score = ranked.reduce((total, signal) => total + signal.weight, 0);
+  
+  let risk = RiskLevel.Green;
+  if (score >= riskThresholds.red) {
+    risk = RiskLevel.Red;
+  } else if (score >= riskThresholds.amber) {
+    risk = RiskLevel.Amber;
+  }
+  
+  return {
+    risk,
+    score,
+    reasons: ranked.map(s => s.reason),
+    signals: ranked,
+  };
+}
+
+// Which list entry covers this hostname (the host itself or a parent, up to the registrable
+// domain). Listing a public suffix such as github.io does not cover every site under it.
+function findListedDomain(hostname: string, list: Set<string>): string | null {
+  if (list.size === 0) return null;
+  
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  const registrable = getRegistrableDomain(host);
+  const labels = host.split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (list.has(candidate)) {
+      return candidate;
+    }
+    if (candidate === registrable) {
+      break;
+    }
+  }
+  return null;
+}
+
+function createBlocklistedResult(url: URL, listedDomain: string): PreflightResult {
+  const signal: RiskSignal = {
+    category: SignalCategory.Policy,
+    reason: `Blocklisted domain (${listedDomain})`,
+    weight: 100,
+  };
+  const domain = extractDomain(url);
+  return {
+    domain,
+    registrableDomain: getRegistrableDomain(domain),
+    type: LinkType.Blocked,
+    risk: RiskLevel.Red,
+    reasons: [signal.reason],
+    score: signal.weight,
+    signals: [signal],
+    finalUrl: url.href,
+    fetchPlan: FetchPlan.Blocked,
+  };
+}
+
+// Glob match on a hostname; `*.example.com` also matches `example.com` itself
+function matchesDomainGlob(hostname: string, glob: string): boolean {
+  const pattern = glob.trim().toLowerCase();
+  if (!pattern) return false;
+  
+  if (pattern.startsWith('*.') && hostname === pattern.slice(2)) {
+    return true;
+  }
+  
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(hostname);
+}
+
+function ruleMatches(
+  rule: LinkRule,
+  facts: { url: URL; type: LinkType; size: number | null; redirectCount: number }
+): boolean {
+  const { match } = rule;
+  
+  if (match.domain && !matchesDomainGlob(facts.url.hostname.toLowerCase(), match.domain)) {
+    return false;
+  }
+  
+  if (match.path) {
+    try {
+      if (!new RegExp(match.path).test(facts.url.pathname)) {
+        return false;
+      }
+    } catch {
+      // A broken pattern never matches
+      return false;
+    }
   }
   
-  return { risk: RiskLevel.Green, reasons: [] };
+  if (match.type && match.type !== facts.type) {
+    return false;
+  }
+  
+  if (match.minSize !== undefined && (facts.size === null || facts.size < match.minSize)) {
+    return false;
+  }
+  
+  if (match.maxSize !== undefined && (facts.size === null || facts.size > match.maxSize)) {
+    return false;
+  }
+  
+  if (match.minRedirects !== undefined && facts.redirectCount < match.minRedirects) {
+    return false;
+  }
+  
+  if (match.maxRedirects !== undefined && facts.redirectCount > match.maxRedirects) {
+    return false;
+  }
+  
+  return true;
+}
+
+// First enabled rule that matches this link, if any
+function findMatchingRule(
+  facts: { url: URL; type: LinkType; size: number | null; redirectCount: number }
+): LinkRule | null {
+  return linkRules.find(rule => rule.enabled && ruleMatches(rule, facts)) || null;
 }
 
 // Pick what kind of fetch to do (or block it)
@@ -671,7 +2508,7 @@ function decideFetchPlan(type: LinkType, risk: RiskLevel): FetchPlan {
     return FetchPlan.Blocked;
   }
   
-  if ([LinkType.Mailto, LinkType.Tel, LinkType.Anchor, LinkType.Video].includes(type)) {
+  if ([LinkType.Mailto, LinkType.Tel, LinkType.Anchor, LinkType.Video, LinkType.Broken].includes(type)) {
     return FetchPlan.NoFetch;
   }
   
@@ -892,94 +2729,168 @@ async function setupOffscreenDocument(): Promise<void> {
   offscreenDocumentCreated = true;
 }
 
-// Fetch just the first N bytes of a file
-async function performPartialFetch(url: string, maxBytes: number = 65536): Promise<{ data: ArrayBuffer; contentType: string }> {
-  const controller = new AbortController();
-  // Give PDFs more time since they're bigger
-  const timeout = maxBytes > 500000 ? 8000 : 3000;
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      method: 'GET',
-      credentials: 'omit',
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Referer': new URL(url).origin + '/',
-        'Sec-Fetch-Dest': 'document',
-        'Sec-Fetch-Mode': 'navigate',
-        'Sec-Fetch-Site': 'cross-site',
-        'Sec-Fetch-User': '?1',
-        'Upgrade-Insecure-Requests': '1',
-      },
-    });
+// LinkedIn answers 999, Cloudflare marks its challenge pages with cf-mitigated
+function isBotChallenge(response: Response): boolean {
+  if (response.status === 999) return true;
+  if (response.headers.get('cf-mitigated') === 'challenge') return true;
+  return (response.status === 403 || response.status === 503) &&
+    (response.headers.get('Server') || '').toLowerCase().includes('cloudflare');
+}
 
-    clearTimeout(timeoutId);
+const MAX_GET_REDIRECTS = 5;
 
-    if (response.status === 999) {
-      throw new Error('HTTP 999 - Cloudflare protection');
+// networkFetch for GETs, following redirects by hand so each hop passes `isRefused` before it
+// is requested; a public link must not be able to bounce the request into the user's network
+async function networkFetchFollowingRedirects<T>(
+  url: string,
+  request: Omit<NetworkRequest, 'method' | 'redirect'>,
+  isRefused: ((url: URL) => AddressSpace | null) | undefined,
+  read: (response: Response, body: Uint8Array | null) => T | Promise<T>
+): Promise<T> {
+  let currentUrl = url;
+  
+  for (let redirectCount = 0; ; redirectCount++) {
+    const refusedSpace = isRefused?.(new URL(currentUrl));
+    if (refusedSpace) {
+      throw new PreviewError('http', `Leads to ${ADDRESS_SPACE_LABELS[refusedSpace as Exclude<AddressSpace, 'public'>]}, not fetched`);
+    }
+    
+    const hopUrl = currentUrl;
+    const outcome = await networkFetch<{ location: string } | { result: T }>(
+      hopUrl,
+      { ...request, redirect: 'manual' },
+      async (response, body) => {
+        const { status, location } = await readRedirect(hopUrl, response);
+        return status >= 300 && status < 400 && location
+          ? { location: new URL(location, hopUrl).href }
+          : { result: await read(response, body) };
+      }
+    );
+    
+    if (!('location' in outcome)) {
+      return outcome.result;
     }
+    if (redirectCount >= MAX_GET_REDIRECTS) {
+      throw new PreviewError('http', `Redirects x${redirectCount + 1}`);
+    }
+    currentUrl = outcome.location;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+// Fetch just the first part of a file (how much depends on the network policy)
+async function performPartialFetch(
+  url: string,
+  purpose: 'page' | 'document' | 'image',
+  signal?: AbortSignal,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<{ data: ArrayBuffer; contentType: string; validators?: CacheValidators }> {
+  return networkFetchFollowingRedirects(url, { purpose, signal }, isRefused, (response, body) => {
+    if (isBotChallenge(response)) {
+      throw new PreviewError('bot-protection', `HTTP ${response.status} - bot protection`, response.status);
     }
 
-    const contentType = response.headers.get('Content-Type') || 'text/html';
-    
-    // Stream response until we hit maxBytes
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body');
+    if (!response.ok || !body) {
+      throw new PreviewError('http', `HTTP ${response.status}`, response.status);
     }
 
-    const chunks: Uint8Array[] = [];
-    let totalLength = 0;
+    return {
+      data: body.buffer as ArrayBuffer,
+      contentType: response.headers.get('Content-Type') || 'text/html',
+      validators: getCacheValidators(response),
+    };
+  });
+}
 
-    while (totalLength < maxBytes) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      chunks.push(value);
-      totalLength += value.length;
-      
-      if (totalLength >= maxBytes) {
-        reader.cancel();
-        break;
-      }
-    }
+function getCacheValidators(response: Response): CacheValidators | undefined {
+  const etag = response.headers.get('ETag') ?? undefined;
+  const lastModified = response.headers.get('Last-Modified') ?? undefined;
+  return etag || lastModified ? { etag, lastModified } : undefined;
+}
 
-    const combined = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
-    }
+// Conditional HEAD: a 304 confirms what we built from the last response is still current
+async function isNotModified(url: string, validators: CacheValidators, signal?: AbortSignal): Promise<boolean> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+  // A redirect is not a 304, and following it here would skip the private-network check
+  return networkFetch(url, { purpose: 'head', method: 'HEAD', redirect: 'manual', headers, signal }, (response) => response.status === 304);
+}
 
-    return { data: combined.buffer, contentType };
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out');
+// Ask the archive endpoint for the capture closest to now. Speaks the Wayback Machine
+// availability API: GET ?url=... answers { archived_snapshots: { closest: { url, timestamp } } }.
+async function findArchivedSnapshot(url: string, signal?: AbortSignal): Promise<ArchiveSnapshot | null> {
+  let lookupUrl: URL;
+  try {
+    lookupUrl = new URL(networkPolicy.archiveEndpoint);
+  } catch {
+    console.warn('[Archive] Ignoring invalid archive endpoint:', networkPolicy.archiveEndpoint);
+    return null;
+  }
+  lookupUrl.searchParams.set('url', url);
+  
+  const text = await networkFetch(lookupUrl.href, { purpose: 'archive', signal }, (response, body) => {
+    if (!response.ok || !body) {
+      throw new PreviewError('http', `Archive lookup failed: HTTP ${response.status}`, response.status);
     }
-    throw error;
+    return new TextDecoder().decode(body);
+  });
+  
+  let closest: any;
+  try {
+    closest = JSON.parse(text)?.archived_snapshots?.closest;
+  } catch {
+    throw new PreviewError('parse', 'Archive lookup returned invalid JSON');
+  }
+  if (!closest || closest.available === false || typeof closest.url !== 'string') {
+    return null;
   }
+  
+  // Timestamps are YYYYMMDDhhmmss in UTC
+  const match = String(closest.timestamp ?? '').match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  
+  return {
+    url: closest.url,
+    timestamp: `${year}-${month}-${day}T${hour}:${minute}:${second}Z`,
+  };
+}
+
+// Wayback replays pages inside its own toolbar and rewritten links; the id_ flag asks
+// for the page exactly as it was captured
+function getRawSnapshotUrl(snapshotUrl: string): string {
+  return snapshotUrl.replace(/\/web\/(\d{1,14})\//, '/web/$1id_/');
+}
+
+// Content scripts cannot load the service worker's blob: URLs, so images travel as data URLs.
+// The cache keeps the Blob and converts on the way out.
+function blobToDataUrl(blob: Blob): Promise<string> {
+  const reader = new FileReader();
+  return new Promise<string>((resolve) => {
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+  });
 }
 
 // Get AI description of an image
 async function generateImageDescription(
-  imageBlob: Blob
+  imageBlob: Blob,
+  signal?: AbortSignal
 ): Promise<string> {
   if (promptAvailable !== 'available') {
     return '';
   }
 
+  let session: any = null;
   try {
     const baseSession = await getImageSession();
-    const session = await baseSession.clone();
+    session = await baseSession.clone({ signal });
 
     await session.append([
       {
@@ -992,9 +2903,9 @@ async function generateImageDescription(
           { type: 'image', value: imageBlob },
         ],
       },
-    ]);
+    ], { signal });
 
-    const description = await session.prompt('');
+    const description = await session.prompt('', { signal });
     session.destroy();
 
     const words = description.split(/\s+/);
@@ -1004,13 +2915,18 @@ async function generateImageDescription(
 
     return description;
   } catch (error) {
+    session?.destroy();
+    // A cancelled hover isn't a broken session, so keep the warm one around
+    if (isCancelled(signal)) {
+      throw error;
+    }
     console.error('[Preview] Image description generation failed:', error);
     // Reset corrupted session
     if (imageSession) {
       imageSession.destroy();
       imageSession = null;
     }
-    return '';
+    throw createAIError(error);
   }
 }
 
@@ -1018,7 +2934,9 @@ async function generateImageDescription(
 async function generateWebpagePreview(
   html: string,
   url: string,
-  onOverview?: (overview: string) => void
+  onOverview?: (overview: string) => void,
+  onRedirect?: (redirect: ClientRedirect) => Promise<void>,
+  signal?: AbortSignal
 ): Promise<{ overview: string }> {
   try {
     await setupOffscreenDocument();
@@ -1031,37 +2949,57 @@ async function generateWebpagePreview(
 
     if (!parseResponse.success) {
       console.error('[Preview] HTML parsing failed:', parseResponse.error);
-      return { overview: '' };
+      throw new PreviewError('parse', parseResponse.error || 'HTML parsing failed');
     }
 
     const excerpt = parseResponse.excerpt;
+    
+    // Check where a client-side redirect goes while the overview is being written
+    const redirectCheck = parseResponse.redirect && onRedirect
+      ? onRedirect(parseResponse.redirect)
+      : Promise.resolve();
 
     let overview = '';
+    let aiError: PreviewError | null = null;
 
     if (promptAvailable === 'available') {
+      let session: any = null;
       try {
         const baseSession = await getGeneralSession();
-        const session = await baseSession.clone();
+        session = await baseSession.clone({ signal });
         const overviewPrompt = `Based on this webpage content from ${url}, provide a concise 2-3 sentence overview explaining what this page is about and what value it offers to readers:\n\n${excerpt}`;
-        overview = await session.prompt(overviewPrompt);
+        overview = await session.prompt(overviewPrompt, { signal });
         if (onOverview) {
           onOverview(overview);
         }
         session.destroy();
       } catch (error) {
+        session?.destroy();
+        if (isCancelled(signal)) {
+          throw error;
+        }
         console.error('[Preview] Webpage overview generation failed:', error);
         // Reset corrupted session
         if (generalSession) {
           generalSession.destroy();
           generalSession = null;
         }
+        aiError = createAIError(error);
       }
     }
     
+    // The redirect check reports on its own, so let it finish before giving up on the overview
+    await redirectCheck;
+    if (aiError) {
+      throw aiError;
+    }
     return { overview };
   } catch (error) {
+    if (isCancelled(signal) || error instanceof PreviewError) {
+      throw error;
+    }
     console.error('[Preview] Webpage preview generation failed:', error);
-    return { overview: '' };
+    throw new PreviewError('parse', error instanceof Error ? error.message : 'HTML parsing failed');
   }
 }
 
@@ -1069,7 +3007,8 @@ async function generateWebpagePreview(
 async function generatePDFPreview(
   arrayBuffer: ArrayBuffer,
   onOutline: (outline: string[]) => void,
-  onSummary: (summary: string) => void
+  onSummary: (summary: string) => void,
+  signal?: AbortSignal
 ): Promise<{ outline: string[]; summary: string }> {
   if (promptAvailable !== 'available' && summarizerAvailable !== 'available') {
     return { outline: [], summary: '' };
@@ -1087,7 +3026,7 @@ async function generatePDFPreview(
 
     if (!parseResponse.success) {
       console.error('[Preview] PDF parsing failed:', parseResponse.error);
-      return { outline: [], summary: '' };
+      throw new PreviewError('parse', parseResponse.error || 'PDF parsing failed');
     }
 
     const { text } = parseResponse;
@@ -1099,13 +3038,15 @@ async function generatePDFPreview(
 
     let outline: string[] = [];
     let summary = '';
+    let aiError: PreviewError | null = null;
 
     if (promptAvailable === 'available') {
+      let session: any = null;
       try {
         const baseSession = await getGeneralSession();
-        const session = await baseSession.clone();
+        session = await baseSession.clone({ signal });
         const outlinePrompt = `Extract up to 5 informative headings from this PDF text. Output one heading per line, no numbering or bullets:\n\n${truncatedForPrompt}`;
-        const outlineResult = await session.prompt(outlinePrompt);
+        const outlineResult = await session.prompt(outlinePrompt, { signal });
         
         outline = outlineResult
           .split('\n')
@@ -1116,11 +3057,16 @@ async function generatePDFPreview(
         onOutline(outline);
         session.destroy();
       } catch (error) {
+        session?.destroy();
+        if (isCancelled(signal)) {
+          throw error;
+        }
         console.error('[Preview] PDF outline generation failed:', error);
         if (generalSession) {
           generalSession.destroy();
           generalSession = null;
         }
+        aiError = createAIError(error);
       }
     }
 
@@ -1132,34 +3078,49 @@ async function generatePDFPreview(
           : text;
 
         const baseSummarizer = await getSummarizerSession();
-        const summaryResult = await baseSummarizer.summarize(truncatedForSummarizer);
+        const summaryResult = await baseSummarizer.summarize(truncatedForSummarizer, { signal });
         summary = summaryResult;
         onSummary(summary);
       } catch (error) {
+        if (isCancelled(signal)) {
+          throw error;
+        }
         console.error('[Preview] PDF summary generation failed:', error);
         if (summarizerSession) {
           summarizerSession.destroy();
           summarizerSession = null;
         }
+        aiError = createAIError(error);
       }
     }
 
+    // Half a preview (outline without summary) still beats an error
+    if (aiError && outline.length === 0 && !summary) {
+      throw aiError;
+    }
     return { outline, summary };
   } catch (error) {
+    if (isCancelled(signal) || error instanceof PreviewError) {
+      throw error;
+    }
     console.error('[Preview] PDF preview generation failed:', error);
-    return { outline: [], summary: '' };
+    throw new PreviewError('parse', error instanceof Error ? error.message : 'PDF parsing failed');
   }
 }
 
 // Generate overview and risk note for downloads
-async function generateDownloadPreview(preflightResult: PreflightResult): Promise<{ overview: string; riskNote: string }> {
+async function generateDownloadPreview(
+  preflightResult: PreflightResult,
+  signal?: AbortSignal
+): Promise<{ overview: string; riskNote: string }> {
   if (promptAvailable !== 'available') {
     return { overview: '', riskNote: '' };
   }
 
+  let session: any = null;
   try {
     const baseSession = await getGeneralSession();
-    const session = await baseSession.clone();
+    session = await baseSession.clone({ signal });
     
     const fileName = preflightResult.finalUrl.split('/').pop() || 'file';
     const fileExt = fileName.split('.').pop()?.toLowerCase() || '';
@@ -1174,7 +3135,7 @@ async function generateDownloadPreview(preflightResult: PreflightResult): Promis
 
 Be helpful and specific. Start with what it is (e.g., "Source code archive", "Software installer", "Document").`;
     
-    const overview = await session.prompt(overviewPrompt);
+    const overview = await session.prompt(overviewPrompt, { signal });
     
     let riskNote = '';
     if (preflightResult.reasons.length > 0 || preflightResult.risk !== RiskLevel.Green) {
@@ -1189,7 +3150,7 @@ Be helpful and specific. Start with what it is (e.g., "Source code archive", "So
 
       const riskPrompt = `Convert these security signals into a single, clear, ≤120 character risk note for a user:\n${signals.join(', ')}\n\nBe specific and calm. Start with the main risk.`;
       
-      riskNote = await session.prompt(riskPrompt);
+      riskNote = await session.prompt(riskPrompt, { signal });
       riskNote = riskNote.length > 120 ? riskNote.substring(0, 117) + '...' : riskNote;
     }
     
@@ -1197,22 +3158,42 @@ Be helpful and specific. Start with what it is (e.g., "Source code archive", "So
 
     return { overview, riskNote };
   } catch (error) {
+    session?.destroy();
+    if (isCancelled(signal)) {
+      throw error;
+    }
     console.error('[Preview] Download preview generation failed:', error);
     if (generalSession) {
       generalSession.destroy();
       generalSession = null;
     }
-    return { overview: '', riskNote: '' };
+    throw createAIError(error);
+  }
+}
+
+function getAIUnavailableReason(): string | null {
+  if (summarizerAvailable === 'available' || promptAvailable === 'available') {
+    return null;
   }
+  return summarizerAvailable === 'downloading' || promptAvailable === 'downloading'
+    ? 'AI models downloading...'
+    : 'AI features not available';
 }
 
 // Main entry point for generating previews
 async function generatePreview(
   preflightResult: PreflightResult,
-  onUpdate: (update: any) => void
+  onUpdate: (update: any) => void,
+  signal?: AbortSignal,
+  ignoreBackoff = false,
+  pageOrigin?: string
 ): Promise<void> {
   const { type, risk, fetchPlan, finalUrl } = preflightResult;
 
+  if (preflightResult.skipPreview) {
+    return;
+  }
+
   if (risk === RiskLevel.Red) {
     onUpdate({ aiAvailable: false, reason: 'High risk link' });
     return;
@@ -1220,47 +3201,189 @@ async function generatePreview(
 
   const shouldProcess = 
     (type === LinkType.Webpage || type === LinkType.PDF || type === LinkType.Image) && fetchPlan === FetchPlan.PartialGet ||
-    type === LinkType.Download && fetchPlan === FetchPlan.HeadOnly;
+    type === LinkType.Download && fetchPlan === FetchPlan.HeadOnly ||
+    type === LinkType.Broken;
 
   if (!shouldProcess) {
     return;
   }
 
-  const aiAvailable = summarizerAvailable === 'available' || promptAvailable === 'available';
-  if (!aiAvailable) {
-    onUpdate({ 
-      aiAvailable: false, 
-      reason: summarizerAvailable === 'downloading' || promptAvailable === 'downloading'
-        ? 'AI models downloading...'
-        : 'AI features not available'
-    });
+  if (type === LinkType.Broken && !networkPolicy.archiveEndpoint) {
+    onUpdate({ aiAvailable: false, reason: 'Archive lookups are turned off' });
+    return;
+  }
+  
+  // Intranet links would be handed to a third-party archive, along with the fact that they exist
+  if (type === LinkType.Broken && (preflightResult.addressSpace || (pageOrigin && canReachPrivateNetwork(pageOrigin)))) {
+    onUpdate({ aiAvailable: false, reason: 'Private links are not looked up in the archive' });
     return;
   }
 
-  const cacheKey = await generateHash(finalUrl + type + fetchPlan);
+  // Dead links still get their archive lookup without AI; only the summary needs it
+  const unavailableReason = getAIUnavailableReason();
+  if (unavailableReason && type !== LinkType.Broken) {
+    onUpdate({ aiAvailable: false, reason: unavailableReason });
+    return;
+  }
+
+  const cacheKey = getSiteCacheKey(finalUrl, await generateHash(finalUrl + type + fetchPlan));
+  const isRefused = getRefusalCheck(pageOrigin);
 
   const cached = await previewCache.get(cacheKey);
   if (cached) {
     const update: any = { 
       aiAvailable: true,
       cached: true,
+      cachedAt: cached.timestamp,
       outline: cached.data.outline,
       overview: cached.data.overview,
       imageDescription: cached.data.imageDescription,
-      imageUrl: cached.data.imageUrl,
+      imageUrl: cached.data.image ? await blobToDataUrl(cached.data.image) : undefined,
+      clientRedirect: cached.data.clientRedirect,
+      archive: cached.data.archive,
     };
     if (preflightResult.type === LinkType.PDF && cached.data.summary) {
       update.summary = cached.data.summary;
     }
     onUpdate(update);
+    if (cached.stale) {
+      previewCache.revalidate(cacheKey, () => revalidatePreview(preflightResult, cacheKey, cached.validators, isRefused));
+    }
+    return;
+  }
+
+  // Still backing off from the last failure; the user can ask to retry anyway
+  const failure = await previewFailure(cacheKey, ignoreBackoff);
+  if (failure) {
+    onUpdate({ aiAvailable: true, error: { ...failure.error, retryAt: failure.retryAt, cached: true } });
+    return;
+  }
+
+  try {
+    await previewRequests.run(cacheKey, signal, onUpdate, (sharedSignal, emit) =>
+      fetchAndGeneratePreview(preflightResult, cacheKey, emit, sharedSignal, isRefused)
+    );
+  } catch (error) {
+    // This caller went away; anyone else waiting on the same preview keeps going
+    if (isCancelled(signal)) {
+      return;
+    }
+    throw error;
+  }
+}
+
+const FAILURE_BACKOFF = { base: 30 * 1000, max: 60 * 60 * 1000 };
+
+// Failures of the device's own AI say nothing about the link, so they are not remembered
+const REMEMBERED_FAILURES = new Set<PreviewErrorKind>(['network', 'timeout', 'http', 'bot-protection', 'parse']);
+
+async function previewFailure(cacheKey: string, ignoreBackoff: boolean): Promise<PreviewFailure | null> {
+  if (ignoreBackoff) return null;
+  const failure = await failureCache.get(cacheKey);
+  return failure && Date.now() < failure.data.retryAt ? failure.data : null;
+}
+
+// Remember a failure with a backoff that doubles on every consecutive failure
+async function recordPreviewFailure(url: string, cacheKey: string, error: PreviewErrorInfo): Promise<PreviewErrorInfo> {
+  if (!REMEMBERED_FAILURES.has(error.kind)) {
+    return error;
+  }
+  
+  const previous = await failureCache.get(cacheKey);
+  const attempts = (previous?.data.attempts ?? 0) + 1;
+  const failedAt = Date.now();
+  const retryAt = failedAt + Math.min(FAILURE_BACKOFF.max, FAILURE_BACKOFF.base * 2 ** (attempts - 1));
+  await failureCache.set(cacheKey, { url, error, attempts, failedAt, retryAt });
+  return { ...error, retryAt };
+}
+
+// Keep a stale preview when the server says the page has not changed since it was built;
+// otherwise rebuild it for whoever hovers next
+async function revalidatePreview(
+  preflightResult: PreflightResult,
+  cacheKey: string,
+  validators?: CacheValidators,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<void> {
+  if (validators && await isNotModified(preflightResult.finalUrl, validators)) {
+    await previewCache.touch(cacheKey);
     return;
   }
+  
+  await previewRequests.run(cacheKey, undefined, null, (sharedSignal, emit) =>
+    fetchAndGeneratePreview(preflightResult, cacheKey, emit, sharedSignal, isRefused)
+  );
+}
+
+const CLIENT_REDIRECT_LABELS: Record<ClientRedirect['kind'], string> = {
+  'meta-refresh': 'a meta refresh',
+  script: 'a script',
+  interstitial: 'an interstitial page',
+};
+
+const RISK_SEVERITY: Record<RiskLevel, number> = {
+  [RiskLevel.Green]: 0,
+  [RiskLevel.Amber]: 1,
+  [RiskLevel.Red]: 2,
+};
+
+// Preflight where the page sends the browser and fold that risk into the link's own.
+// The link is never safer than the page it lands on.
+async function checkClientRedirect(
+  preflightResult: PreflightResult,
+  redirect: ClientRedirect,
+  signal: AbortSignal
+): Promise<ClientRedirectCheck> {
+  const targetResult = await performPreflightCheck(redirect.target, '', preflightResult.finalUrl, signal);
+  
+  const crossesSites = getRegistrableDomain(targetResult.domain) !== getRegistrableDomain(preflightResult.domain);
+  const redirectSignal: RiskSignal = {
+    category: SignalCategory.Redirect,
+    reason: `Page redirects to ${targetResult.domain} with ${CLIENT_REDIRECT_LABELS[redirect.kind]}`,
+    weight: crossesSites ? 25 : 10,
+  };
+  
+  const seen = new Set<string>();
+  const merged = scoreRisk(
+    [...(preflightResult.signals ?? []), redirectSignal, ...(targetResult.signals ?? [])].filter((entry) => {
+      if (seen.has(entry.reason)) return false;
+      seen.add(entry.reason);
+      return true;
+    })
+  );
+  const risk = [merged.risk, targetResult.risk, preflightResult.risk]
+    .reduce((worst, level) => (RISK_SEVERITY[level] > RISK_SEVERITY[worst] ? level : worst));
+  
+  return {
+    kind: redirect.kind,
+    target: targetResult.finalUrl,
+    domain: targetResult.domain,
+    risk,
+    score: merged.score,
+    reasons: merged.reasons,
+    signals: merged.signals,
+  };
+}
+
+// Fetch the target and run the AI steps, then cache what we got
+async function fetchAndGeneratePreview(
+  preflightResult: PreflightResult,
+  cacheKey: string,
+  onUpdate: (update: any) => void,
+  signal: AbortSignal,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<void> {
+  const { type, finalUrl } = preflightResult;
+  const savePreview = async (preview: Omit<CachedPreview, 'url' | 'type'>, validators?: CacheValidators) => {
+    await previewCache.set(cacheKey, { ...preview, url: finalUrl, type }, validators);
+    await failureCache.delete(cacheKey);
+  };
 
   try {
     if (type === LinkType.Download) {
-      const { overview, riskNote } = await generateDownloadPreview(preflightResult);
+      const { overview, riskNote } = await generateDownloadPreview(preflightResult, signal);
       if (overview || riskNote) {
-        await previewCache.set(cacheKey, { summary: overview, overview });
+        await savePreview({ summary: overview, overview });
         onUpdate({ 
           aiAvailable: true,
           overview,
@@ -1270,12 +3393,56 @@ async function generatePreview(
       return;
     }
 
+    if (type === LinkType.Broken) {
+      const archive = await findArchivedSnapshot(finalUrl, signal);
+      onUpdate({ aiAvailable: true, archive });
+      
+      if (!archive) {
+        await savePreview({ summary: '', archive });
+        return;
+      }
+      
+      // The archive decides where its copy lives. Only a self-hosted archive may point into a private network.
+      const archiveOrigin = new URL(networkPolicy.archiveEndpoint).origin;
+      const isSnapshotRefused = (hop: URL) => hop.origin === archiveOrigin ? null : refusePrivateHost(hop);
+      if (isSnapshotRefused(new URL(archive.url))) {
+        await savePreview({ summary: '', archive });
+        onUpdate({ aiAvailable: false, reason: 'Archived copy points into a private network, not fetched' });
+        return;
+      }
+      
+      const unavailableReason = getAIUnavailableReason();
+      if (unavailableReason) {
+        onUpdate({ aiAvailable: false, reason: unavailableReason });
+        return;
+      }
+      
+      const { data } = await performPartialFetch(getRawSnapshotUrl(archive.url), 'page', signal, isSnapshotRefused);
+      const result = await generateWebpagePreview(
+        new TextDecoder().decode(data),
+        archive.url,
+        (overview) => {
+          onUpdate({ 
+            aiAvailable: true,
+            overview,
+          });
+        },
+        undefined,
+        signal
+      );
+      
+      await savePreview({ summary: '', overview: result.overview, archive });
+      return;
+    }
+
     if (type === LinkType.Webpage) {
-      const { data } = await performPartialFetch(finalUrl, 49152);
+      const { data, validators } = await performPartialFetch(finalUrl, 'page', signal, isRefused);
       
       const decoder = new TextDecoder();
       const html = decoder.decode(data);
       
+      let clientRedirect: ClientRedirectCheck | undefined;
+      
       const result = await generateWebpagePreview(
         html, 
         finalUrl,
@@ -1284,19 +3451,34 @@ async function generatePreview(
             aiAvailable: true,
             overview,
           });
-        }
+        },
+        async (redirect) => {
+          try {
+            clientRedirect = await checkClientRedirect(preflightResult, redirect, signal);
+            onUpdate({
+              aiAvailable: true,
+              clientRedirect,
+            });
+          } catch (error) {
+            if (!isCancelled(signal)) {
+              console.error('[Preview] Client redirect check failed:', error);
+            }
+          }
+        },
+        signal
       );
       
-      if (result.overview) {
-      await previewCache.set(cacheKey, { 
-        summary: '',
-        overview: result.overview
-      });
+      if (result.overview || clientRedirect) {
+        await savePreview({ 
+          summary: '',
+          overview: result.overview,
+          clientRedirect,
+        }, validators);
       }
     }
 
     if (type === LinkType.PDF) {
-      const { data } = await performPartialFetch(finalUrl, 2 * 1024 * 1024);
+      const { data, validators } = await performPartialFetch(finalUrl, 'document', signal, isRefused);
       
       const result = await generatePDFPreview(
         data,
@@ -1311,29 +3493,25 @@ async function generatePreview(
             aiAvailable: true,
             summary,
           });
-        }
+        },
+        signal
       );
 
       if (result.outline.length > 0 || result.summary) {
-        await previewCache.set(cacheKey, { 
+        await savePreview({ 
           summary: result.summary, 
           outline: result.outline
-        });
+        }, validators);
       }
     }
 
     if (type === LinkType.Image) {
-      const { data, contentType } = await performPartialFetch(finalUrl, 5 * 1024 * 1024);
+      const { data, contentType, validators } = await performPartialFetch(finalUrl, 'image', signal, isRefused);
       
       const blob = new Blob([data], { type: contentType || 'image/jpeg' });
+      const imageUrl = await blobToDataUrl(blob);
       
-      const reader = new FileReader();
-      const imageUrl = await new Promise<string>((resolve) => {
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(blob);
-      });
-      
-      const description = await generateImageDescription(blob);
+      const description = await generateImageDescription(blob, signal);
       
       if (description || imageUrl) {
         onUpdate({ 
@@ -1342,49 +3520,31 @@ async function generatePreview(
           imageUrl,
         });
         
-        await previewCache.set(cacheKey, { 
+        await savePreview({ 
           summary: '',
           imageDescription: description,
-          imageUrl
-        });
+          image: blob,
+        }, validators);
       }
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    if (errorMessage.includes('HTTP 999') || errorMessage.includes('Cloudflare protection')) {
-      onUpdate({ 
-        aiAvailable: false,
-        reason: 'This site is protected by Cloudflare and cannot be previewed. Basic information is still available.',
-      });
+    // Nobody is looking at this preview anymore
+    if (isCancelled(signal)) {
       return;
     }
     
-    const isCommonFailure = errorMessage.includes('HTTP 404') || 
-                           errorMessage.includes('HTTP 403') || 
-                           errorMessage.includes('HTTP 410') ||
-                           errorMessage.includes('Failed to fetch') ||
-                           errorMessage.includes('CORS') ||
-                           errorMessage.includes('timed out');
-    
-    if (isCommonFailure) {
-      onUpdate({ 
-        aiAvailable: true,
-        clearLoading: true,
-      });
-    } else {
-      onUpdate({ 
-        aiAvailable: true,
-        error: 'Preview unavailable',
-      });
-    }
+    onUpdate({
+      aiAvailable: true,
+      error: await recordPreviewFailure(finalUrl, cacheKey, toPreviewErrorInfo(error)),
+    });
   }
 }
 
 async function performPreflightCheck(
   href: string,
   anchorText: string,
-  pageOrigin: string
+  pageOrigin: string,
+  signal?: AbortSignal
 ): Promise<PreflightResult> {
   const allSignals: RiskSignal[] = [];
   
@@ -1436,61 +3596,147 @@ async function performPreflightCheck(
     };
   }
   
-  const lexicalResult = performLexicalChecks(url, anchorText, pageOrigin);
-  allSignals.push(...lexicalResult.signals);
-  const textMismatch = lexicalResult.textMismatch;
+  // Domain lists come before anything else, including the network
+  const blockedBy = findListedDomain(url.hostname, domainBlocklist);
+  if (blockedBy) {
+    return createBlocklistedResult(url, blockedBy);
+  }
+  
+  // Wrapped links are judged by where they lead, and the wrappers themselves are never requested
+  const { url: target, intermediaries, wrappers } = unwrapUrl(url);
+  for (const hop of [...wrappers.slice(1), target]) {
+    const hopBlockedBy = hop !== url && findListedDomain(hop.hostname, domainBlocklist);
+    if (hopBlockedBy) {
+      return createBlocklistedResult(hop, hopBlockedBy);
+    }
+  }
+  if (intermediaries.length > 0) {
+    allSignals.push({
+      category: SignalCategory.Redirect,
+      reason: `Link passes through ${intermediaries.length} ${intermediaries.length === 1 ? 'intermediary' : 'intermediaries'}`,
+      weight: 10 * intermediaries.length,
+    });
+  }
+  
+  // Otherwise paypa1.com/go?to=https://paypal.com would pass as paypal.com
+  allSignals.push(...getWrapperSignals(wrappers, pageOrigin));
   
-  if (url.protocol === 'http:' || url.protocol === 'https:') {
-    const headResult = await performHeadRequest(url);
-    allSignals.push(...headResult.signals);
+  // A trusted destination does not vouch for the hosts in front of it
+  let allowedBy = wrappers.every(wrapper => findListedDomain(wrapper.hostname, domainAllowlist))
+    ? findListedDomain(target.hostname, domainAllowlist)
+    : null;
+  
+  let lexicalResult = performLexicalChecks(target, anchorText, pageOrigin);
+  
+  // Private targets from public pages are judged on the URL alone
+  const isRefused = getRefusalCheck(pageOrigin);
+  
+  if (target.protocol === 'http:' || target.protocol === 'https:') {
+    const refusedSpace = isRefused?.(target);
+    if (refusedSpace) {
+      return createPrivateNetworkResult(target, refusedSpace, [...allSignals, ...lexicalResult.signals]);
+    }
     
-    let type = determineLinkTypeFromContentType(
-      headResult.contentType,
-      headResult.contentDisposition
-    );
+    const facts = await getNetworkFacts(target, pageOrigin, signal, isRefused);
+    allSignals.push(...facts.signals);
     
-    const urlBasedType = guesslinkTypeFromUrl(headResult.finalUrl);
-    if (urlBasedType) {
-      type = urlBasedType;
+    if (facts.refusedSpace) {
+      return {
+        ...createPrivateNetworkResult(new URL(facts.finalUrl), facts.refusedSpace, [...allSignals, ...lexicalResult.signals]),
+        redirectChain: facts.hops,
+      };
     }
     
-    if (type === LinkType.Download && headResult.contentType.includes('octet-stream')) {
-      const sniffedType = await performSniff(headResult.finalUrl);
-      if (sniffedType) {
-        type = sniffedType;
-        
-        if (sniffedType === LinkType.Download) {
-          allSignals.push({
-            level: RiskLevel.Red,
-            reason: 'Executable download',
-          });
-        }
+    // Unknown sites are only unwrapped once the request shows them redirecting to the embedded URL;
+    // otherwise the link is judged as the page it names
+    const embedded = findGenericRedirectTarget(target);
+    if (embedded && facts.hops[1]?.url.split('#')[0] === embedded.href.split('#')[0]) {
+      const embeddedBlockedBy = findListedDomain(embedded.hostname, domainBlocklist);
+      if (embeddedBlockedBy) {
+        return createBlocklistedResult(embedded, embeddedBlockedBy);
       }
+      if (intermediaries[intermediaries.length - 1] !== extractDomain(target)) {
+        intermediaries.push(extractDomain(target));
+      }
+      allSignals.push(...getWrapperSignals([target], pageOrigin));
+      allowedBy = allowedBy ? findListedDomain(embedded.hostname, domainAllowlist) : null;
+      lexicalResult = performLexicalChecks(embedded, anchorText, pageOrigin);
+    }
+    
+    // A trusted link can still redirect somewhere we distrust
+    const finalBlockedBy = findListedDomain(new URL(facts.finalUrl).hostname, domainBlocklist);
+    if (finalBlockedBy) {
+      return createBlocklistedResult(new URL(facts.finalUrl), finalBlockedBy);
+    }
+    
+    const type = facts.type;
+    
+    const rule = findMatchingRule({
+      url: new URL(facts.finalUrl),
+      type,
+      size: facts.size,
+      redirectCount: facts.redirectCount,
+    });
+    
+    const skipLexical = rule?.action.skipLexicalChecks === true;
+    if (!skipLexical) {
+      allSignals.push(...lexicalResult.signals);
+    }
+    const textMismatch = skipLexical ? null : lexicalResult.textMismatch;
+    const lookalike = skipLexical ? null : lexicalResult.lookalike;
+    
+    if (rule?.action.reason) {
+      allSignals.push({
+        category: SignalCategory.Policy,
+        reason: rule.action.reason,
+        weight: 0,
+      });
     }
     
-    const { risk, reasons } = scoreRisk(allSignals);
+    // Allowlisted domains are trusted outright, so none of the other signals count
+    const scored = allowedBy
+      ? scoreRisk([{ category: SignalCategory.Policy, reason: `Allowlisted domain (${allowedBy})`, weight: 0 }])
+      : scoreRisk(allSignals);
+    const { score, reasons, signals } = scored;
+    const risk = rule?.action.risk ?? scored.risk;
     
-    const fetchPlan = decideFetchPlan(type, risk);
+    const fetchPlan = rule?.action.fetchPlan ?? decideFetchPlan(type, risk);
     
     let videoPlatform: VideoPlatform | undefined;
     if (type === LinkType.Video) {
-      const detected = detectVideoPlatform(new URL(headResult.finalUrl));
+      const detected = detectVideoPlatform(new URL(facts.finalUrl));
       if (detected) {
         videoPlatform = detected;
       }
     }
     
+    const domain = extractDomain(new URL(facts.finalUrl));
+    const unicodeDomain = toUnicodeHostname(domain);
+    const addressSpace = classifyAddressSpace(domain);
+    
     return {
-      domain: extractDomain(new URL(headResult.finalUrl)),
+      domain,
+      registrableDomain: getRegistrableDomain(domain),
+      unicodeDomain: unicodeDomain && unicodeDomain !== domain ? unicodeDomain : undefined,
       type,
       risk,
       reasons,
-      size: headResult.contentLength || undefined,
-      finalUrl: headResult.finalUrl,
+      score,
+      signals,
+      size: facts.size || undefined,
+      finalUrl: facts.finalUrl,
       fetchPlan,
-      redirectCount: headResult.redirectCount,
+      redirectCount: facts.redirectCount,
+      redirectChain: facts.hops.length > 1 ? facts.hops : undefined,
       textMismatch: textMismatch || undefined,
+      lookalike: lookalike || undefined,
       videoPlatform,
+      matchedRule: rule?.name,
+      skipPreview: rule?.action.skipPreview || undefined,
+      via: intermediaries.length > 0 ? intermediaries : undefined,
+      addressSpace: addressSpace !== 'public' ? addressSpace : undefined,
+      httpStatus: facts.status,
+      connectionError: facts.connectionError,
     };
   }
   
@@ -1504,43 +3750,206 @@ async function performPreflightCheck(
   };
 }
 
-async function fetchLinkTitle(url: string): Promise<string> {
-  const cached = await titleCache.get(url);
+async function fetchLinkTitle(url: string, pageOrigin?: string): Promise<string> {
+  // Checked before the cache too, or a title fetched for a trusted page would leak to any other
+  const isRefused = getRefusalCheck(pageOrigin);
+  if (isRefused?.(new URL(url))) {
+    return 'Unable to load title';
+  }
+  
+  const cacheKey = getSiteCacheKey(url);
+  const cached = await titleCache.get(cacheKey);
   if (cached) {
+    if (cached.stale) {
+      titleCache.revalidate(cacheKey, () => loadLinkTitle(url, cacheKey, isRefused));
+    }
     return cached.data;
   }
 
   try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      },
-    });
+    return await loadLinkTitle(url, cacheKey, isRefused);
+  } catch (error) {
+    console.error('Error fetching link title:', error);
+    return 'Unable to load title';
+  }
+}
 
-    if (!response.ok) {
+async function loadLinkTitle(
+  url: string,
+  cacheKey: string,
+  isRefused?: (url: URL) => AddressSpace | null
+): Promise<string> {
+  const text = await networkFetchFollowingRedirects(url, { purpose: 'title' }, isRefused, (response, body) => {
+    if (!response.ok || !body) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
+    return new TextDecoder().decode(body);
+  });
 
-    const text = await response.text();
-    const titleMatch = text.match(/<title[^>]*>([^<]+)<\/title>/i);
-    
-    if (titleMatch && titleMatch[1]) {
-      const title = titleMatch[1].trim();
-      await titleCache.set(url, title);
-      return title;
+  const titleMatch = text.match(/<title[^>]*>([^<]+)<\/title>/i);
+  
+  if (titleMatch && titleMatch[1]) {
+    const title = titleMatch[1].trim();
+    await titleCache.set(cacheKey, title);
+    return title;
+  }
+  
+  return 'Untitled';
+}
+
+// Exported cache files. Bump the version whenever an exported entry changes shape.
+const CACHE_EXPORT_FORMAT = 'hoverpeek-cache';
+const CACHE_EXPORT_VERSION = 1;
+
+// Blobs do not survive JSON, so preview images travel as data URLs
+type ExportedPreview = Omit<CachedPreview, 'image'> & { image?: string };
+
+interface CacheExport {
+  format: typeof CACHE_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  preview: { key: string; entry: CacheEntry<ExportedPreview> }[];
+}
+
+function dataUrlToBlob(dataUrl: string): Blob | undefined {
+  const match = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=]*)$/.exec(dataUrl);
+  if (!match) {
+    return undefined;
+  }
+  const bytes = Uint8Array.from(atob(match[2]), char => char.charCodeAt(0));
+  return new Blob([bytes], { type: match[1] });
+}
+
+// Link checks stay out: they say whether a link is safe, so each machine makes its own
+async function exportCaches(): Promise<CacheExport> {
+  const previews = await previewCache.entries();
+  const preview = await Promise.all(previews.map(async ({ key, entry }) => {
+    const { image, ...rest } = entry.data;
+    const data: ExportedPreview = image ? { ...rest, image: await blobToDataUrl(image) } : rest;
+    return { key, entry: { ...entry, data } };
+  }));
+  return {
+    format: CACHE_EXPORT_FORMAT,
+    version: CACHE_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    preview,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isWebUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const LINK_TYPE_VALUES = new Set<unknown>(Object.values(LinkType));
+
+// A preview from an export file, or null when it doesn't have the shape of one. Only what the
+// popup shows is kept; the client redirect check is a verdict, so it is made again here.
+function parseImportedPreview(key: string, value: unknown): CacheEntry<CachedPreview> | null {
+  if (!isRecord(value) || typeof value.timestamp !== 'number' || !isRecord(value.data)) {
+    return null;
+  }
+  const data = value.data;
+  if (!isWebUrl(data.url) || !LINK_TYPE_VALUES.has(data.type) || typeof data.summary !== 'string') {
+    return null;
+  }
+  if (getSiteFromCacheKey(key) !== getSiteFromCacheKey(getSiteCacheKey(data.url))) {
+    return null;
+  }
+  
+  const optionalString = (field: unknown) => (typeof field === 'string' ? field : undefined);
+  const outline = Array.isArray(data.outline) && data.outline.every(item => typeof item === 'string')
+    ? data.outline as string[]
+    : undefined;
+  let archive: ArchiveSnapshot | null | undefined;
+  if (isRecord(data.archive) && isWebUrl(data.archive.url) && typeof data.archive.timestamp === 'string') {
+    archive = { url: data.archive.url, timestamp: data.archive.timestamp };
+  } else if (data.archive === null) {
+    archive = null;
+  }
+  const validators = isRecord(value.validators)
+    ? { etag: optionalString(value.validators.etag), lastModified: optionalString(value.validators.lastModified) }
+    : undefined;
+  
+  return {
+    data: {
+      url: data.url,
+      type: data.type as LinkType,
+      summary: data.summary,
+      outline,
+      overview: optionalString(data.overview),
+      imageDescription: optionalString(data.imageDescription),
+      image: typeof data.image === 'string' ? dataUrlToBlob(data.image) : undefined,
+      archive,
+    },
+    // A clock ahead of ours must not keep entries fresh forever
+    timestamp: Math.min(value.timestamp, Date.now()),
+    validators,
+  };
+}
+
+// Files from older versions may also carry link checks; those are ignored, like on export
+async function importCaches(file: unknown): Promise<{ imported: number; skipped: number }> {
+  if (!isRecord(file) || file.format !== CACHE_EXPORT_FORMAT || typeof file.version !== 'number') {
+    throw new Error('Not a HoverPeek cache export');
+  }
+  if (file.version > CACHE_EXPORT_VERSION) {
+    throw new Error(`Exported by a newer version (format ${file.version}); update HoverPeek first`);
+  }
+  
+  let imported = 0;
+  let skipped = 0;
+  for (const item of Array.isArray(file.preview) ? file.preview : []) {
+    if (!isRecord(item) || typeof item.key !== 'string') {
+      skipped++;
+      continue;
     }
-    
-    return 'Untitled';
-  } catch (error) {
-    console.error('Error fetching link title:', error);
-    return 'Unable to load title';
+    const entry = parseImportedPreview(item.key, item.entry);
+    if (entry && await previewCache.import(item.key, entry)) {
+      imported++;
+    } else {
+      skipped++;
+    }
+  }
+  return { imported, skipped };
+}
+
+// One AbortController per hover, shared by its preflight and preview work
+const activeRequests = new Map<string, AbortController>();
+
+function getRequestKey(sender: chrome.runtime.MessageSender, requestId: string): string {
+  return `${sender.tab?.id ?? 'extension'}:${sender.frameId ?? 0}:${requestId}`;
+}
+
+function beginRequest(key: string): AbortController {
+  let controller = activeRequests.get(key);
+  if (!controller || controller.signal.aborted) {
+    controller = new AbortController();
+    activeRequests.set(key, controller);
+  }
+  return controller;
+}
+
+function cancelRequest(key: string): void {
+  const controller = activeRequests.get(key);
+  if (controller) {
+    controller.abort();
+    activeRequests.delete(key);
   }
 }
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'fetchLinkTitle') {
-    fetchLinkTitle(message.url)
+    fetchLinkTitle(message.url, message.pageOrigin)
       .then((title) => {
         sendResponse({ success: true, title });
       })
@@ -1552,52 +3961,59 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
   
   if (message.type === 'preflightCheck') {
-    const { href, anchorText, pageOrigin } = message;
+    const { href, anchorText, pageOrigin, requestId } = message;
+    const signal = requestId ? beginRequest(getRequestKey(sender, requestId)).signal : undefined;
     
-    (async () => {
-      const cached = await preflightCache.get(href);
-      if (cached) {
-        sendResponse({ success: true, result: cached.data });
-        return;
-      }
-      
-      performPreflightCheck(href, anchorText || '', pageOrigin)
-        .then(async (result) => {
-          await preflightCache.set(href, result);
-          sendResponse({ success: true, result });
-        })
+    // Only the network facts are cached; the verdict depends on the anchor text and page too
+    performPreflightCheck(href, anchorText || '', pageOrigin, signal)
+      .then((result) => {
+        sendResponse({ success: true, result });
+      })
       .catch((error) => {
-          console.error('Preflight check error:', error);
-          sendResponse({
-            success: true,
-            result: {
-              domain: 'unknown',
-              type: LinkType.Webpage,
-              risk: RiskLevel.Amber,
-              reasons: ['Unable to check'],
-              finalUrl: href,
-              fetchPlan: FetchPlan.PartialGet,
-            },
-          });
+        if (isCancelled(signal)) {
+          sendResponse({ success: false, cancelled: true });
+          return;
+        }
+        console.error('Preflight check error:', error);
+        sendResponse({
+          success: true,
+          result: {
+            domain: 'unknown',
+            type: LinkType.Webpage,
+            risk: RiskLevel.Amber,
+            reasons: ['Unable to check'],
+            finalUrl: href,
+            fetchPlan: FetchPlan.PartialGet,
+          },
         });
-    })();
+      });
     
     return true;
   }
   
   if (message.type === 'generatePreview') {
-    const { preflightResult } = message;
+    const { preflightResult, requestId, retry, pageOrigin } = message;
+    const requestKey = requestId ? getRequestKey(sender, requestId) : null;
+    const signal = requestKey ? beginRequest(requestKey).signal : undefined;
     
     generatePreview(preflightResult, (update) => {
+      if (isCancelled(signal)) {
+        return;
+      }
       if (sender.tab?.id) {
+        // Echo the hover's request id so the content script can route (or drop) the update
         chrome.tabs.sendMessage(sender.tab.id, {
           type: 'previewUpdate',
+          requestId,
           update,
-        }).catch(() => {
+        }, { frameId: sender.frameId }).catch(() => {
         });
       }
-    })
+    }, signal, retry === true, pageOrigin)
       .then(() => {
+        if (requestKey && activeRequests.get(requestKey)?.signal === signal) {
+          activeRequests.delete(requestKey);
+        }
         sendResponse({ success: true });
       })
       .catch((error) => {
@@ -1608,6 +4024,13 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
   
+  if (message.type === 'cancelRequest') {
+    if (message.requestId) {
+      cancelRequest(getRequestKey(sender, message.requestId));
+    }
+    return false;
+  }
+  
   if (message.type === 'getAIStatus') {
     sendResponse({
       summarizer: summarizerAvailable,
@@ -1699,8 +4122,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       try {
         await Promise.all([
           titleCache.clear(),
-          preflightCache.clear(),
+          networkFactsCache.clear(),
           previewCache.clear(),
+          failureCache.clear(),
         ]);
         sendResponse({ success: true });
       } catch (error) {
@@ -1710,5 +4134,89 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     })();
     return true;
   }
+  
+  if (message.type === 'listCacheEntries') {
+    cacheStore.listMeta()
+      .then((metas) => {
+        const entries = metas
+          .sort((a, b) => b.lastAccess - a.lastAccess)
+          .map((meta) => ({
+            cache: meta.cache,
+            key: meta.key,
+            site: getSiteFromCacheKey(meta.key),
+            url: meta.url ?? getUrlFromCacheKey(meta.key),
+            type: meta.type ?? meta.cache,
+            size: meta.size,
+            storedAt: meta.storedAt,
+          }));
+        sendResponse({ success: true, entries });
+      })
+      .catch((error) => {
+        console.error('[Cache] Failed to list cache entries:', error);
+        sendResponse({ success: false, error: String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'deleteCacheEntry') {
+    cacheStore.delete(message.cache, message.key)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        console.error('[Cache] Failed to delete cache entry:', error);
+        sendResponse({ success: false, error: String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'deleteCacheSite') {
+    const isSite = (key: string) => getSiteFromCacheKey(key) === message.site;
+    Promise.all([
+      titleCache.deleteWhere(isSite),
+      networkFactsCache.deleteWhere(isSite),
+      previewCache.deleteWhere(isSite),
+      failureCache.deleteWhere(isSite),
+    ])
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        console.error('[Cache] Failed to delete site from cache:', error);
+        sendResponse({ success: false, error: String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'exportCache') {
+    exportCaches()
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        console.error('[Cache] Failed to export caches:', error);
+        sendResponse({ success: false, error: String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'importCache') {
+    importCaches(message.data)
+      .then((counts) => sendResponse({ success: true, ...counts }))
+      .catch((error) => {
+        console.error('[Cache] Failed to import caches:', error);
+        sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'getCacheStats') {
+    cacheStore.stats()
+      .then((stats) => sendResponse({ success: true, stats }))
+      .catch((error) => {
+        console.error('[Cache] Failed to read cache stats:', error);
+        sendResponse({ success: false, error: String(error) });
+      });
+    return true;
+  }
+  
+  if (message.type === 'getNetworkLog') {
+    sendResponse({ success: true, entries: [...networkLog].reverse() });
+    return false;
+  }
 });
 
@@ -0,0 +1,300 @@
+// IndexedDB storage behind the background caches. Values are stored as structured clones,
+// so Blobs go in as binary rather than as data URLs. Each entry is written on its own, and
+// the least recently used entries are evicted once the byte budget is exceeded.
+// Reads stay read-only: access times are batched and written a little later, so a service
+// worker shut down in between only loses some recency, never data.
+
+const DB_VERSION = 1;
+const RECORDS = 'records'; // id -> { id, value }
+const META = 'meta'; // id -> CacheRecordMeta, small enough to scan for eviction and stats
+const ACCESS_FLUSH_DELAY_MS = 2000;
+
+// What an entry is about, for listing; the store itself never looks at it
+export interface CacheEntryInfo {
+  url: string;
+  type: string;
+}
+
+export interface CacheRecordMeta extends Partial<CacheEntryInfo> {
+  id: string;
+  cache: string;
+  key: string;
+  size: number; // approximate bytes, blobs included
+  storedAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  budget: number;
+  caches: Record<string, { entries: number; bytes: number }>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+// Every id of one cache starts with `${cache}|`
+function getCacheRange(cache: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${cache}|`, `${cache}|\uffff`);
+}
+
+const encoder = new TextEncoder();
+
+// UTF-8 bytes of the plain parts as JSON, plus the real size of any Blob inside
+export function estimateSize(value: unknown): number {
+  let blobBytes = 0;
+  const json = JSON.stringify(value, (_key, entry) => {
+    if (entry instanceof Blob) {
+      blobBytes += entry.size;
+      return undefined;
+    }
+    return entry;
+  });
+  return (json ? encoder.encode(json).length : 0) + blobBytes;
+}
+
+export class CacheStore {
+  private dbName: string;
+  private budget: number;
+  private db: Promise<IDBDatabase> | null = null;
+  // Bytes stored across all caches; null until counted, and again after bulk deletes
+  private totalBytes: Promise<number> | null = null;
+  // Bumped when a count's transaction is created. Writes remember the generation their own
+  // transaction was created in, so only those the count cannot have seen are added on top.
+  private totalGeneration = 0;
+  private pendingAccess = new Map<string, number>();
+  private accessFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(dbName: string, budget: number) {
+    this.dbName = dbName;
+    this.budget = budget;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDS, { keyPath: 'id' });
+        const meta = db.createObjectStore(META, { keyPath: 'id' });
+        meta.createIndex('cache', 'cache');
+      };
+      this.db = requestToPromise(request);
+      // Let the next call try again instead of caching the failure
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async setBudget(bytes: number): Promise<void> {
+    this.budget = bytes;
+    await this.evict();
+  }
+
+  async get<T>(cache: string, key: string): Promise<T | undefined> {
+    const db = await this.open();
+    const id = `${cache}|${key}`;
+    const record = await requestToPromise(db.transaction(RECORDS, 'readonly').objectStore(RECORDS).get(id));
+    if (record) {
+      this.noteAccess(id);
+    }
+    return record?.value as T | undefined;
+  }
+
+  private noteAccess(id: string): void {
+    this.pendingAccess.set(id, Date.now());
+    if (!this.accessFlushTimer) {
+      this.accessFlushTimer = setTimeout(() => {
+        this.accessFlushTimer = null;
+        this.flushAccess().catch(error => console.error('[Cache] Failed to record access times:', error));
+      }, ACCESS_FLUSH_DELAY_MS);
+    }
+  }
+
+  // Writes every access noted since the last flush in one transaction
+  private async flushAccess(): Promise<void> {
+    if (this.pendingAccess.size === 0) {
+      return;
+    }
+    const updates = this.pendingAccess;
+    this.pendingAccess = new Map();
+
+    const db = await this.open();
+    const transaction = db.transaction(META, 'readwrite');
+    const store = transaction.objectStore(META);
+    for (const [id, lastAccess] of updates) {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        const meta = request.result as CacheRecordMeta | undefined;
+        // Gone since, or rewritten by a put that is newer than the read
+        if (meta && meta.lastAccess < lastAccess) {
+          store.put({ ...meta, lastAccess });
+        }
+      };
+    }
+    await transactionDone(transaction);
+  }
+
+  private getTotalBytes(): Promise<number> {
+    if (!this.totalBytes) {
+      const counted = this.open().then(db => {
+        // Transactions on the same store run in the order they were created
+        const request = db.transaction(META, 'readonly').objectStore(META).getAll();
+        this.totalGeneration++;
+        return requestToPromise(request) as Promise<CacheRecordMeta[]>;
+      }).then(metas => metas.reduce((sum, meta) => sum + meta.size, 0));
+      this.totalBytes = counted;
+      counted.catch(() => {
+        if (this.totalBytes === counted) {
+          this.totalBytes = null;
+        }
+      });
+    }
+    return this.totalBytes;
+  }
+
+  // `generation` is the one current when the write's transaction was created
+  private adjustTotalBytes(delta: number, generation: number): void {
+    if (this.totalBytes && generation === this.totalGeneration) {
+      this.totalBytes = this.totalBytes.then(total => total + delta);
+    }
+  }
+
+  async put(cache: string, key: string, value: unknown, info?: CacheEntryInfo): Promise<void> {
+    const size = estimateSize(value);
+    // Would push out everything else and still not fit
+    if (size > this.budget) {
+      return;
+    }
+
+    const db = await this.open();
+    const id = `${cache}|${key}`;
+    const now = Date.now();
+    const transaction = db.transaction([RECORDS, META], 'readwrite');
+    const generation = this.totalGeneration;
+    const done = transactionDone(transaction);
+    const previous = await requestToPromise(transaction.objectStore(META).get(id)) as CacheRecordMeta | undefined;
+    transaction.objectStore(RECORDS).put({ id, value });
+    const meta: CacheRecordMeta = { ...info, id, cache, key, size, storedAt: now, lastAccess: now };
+    transaction.objectStore(META).put(meta);
+    await done;
+    this.adjustTotalBytes(size - (previous?.size ?? 0), generation);
+    await this.evict();
+  }
+
+  async delete(cache: string, key: string): Promise<void> {
+    const db = await this.open();
+    const id = `${cache}|${key}`;
+    const transaction = db.transaction([RECORDS, META], 'readwrite');
+    const generation = this.totalGeneration;
+    const done = transactionDone(transaction);
+    const previous = await requestToPromise(transaction.objectStore(META).get(id)) as CacheRecordMeta | undefined;
+    transaction.objectStore(RECORDS).delete(id);
+    transaction.objectStore(META).delete(id);
+    await done;
+    this.adjustTotalBytes(-(previous?.size ?? 0), generation);
+  }
+
+  // Removes the matching entries of one cache. The predicate sees every value, so this reads the whole cache.
+  async deleteWhere(cache: string, predicate: (key: string, value: unknown) => boolean): Promise<number> {
+    const db = await this.open();
+    const transaction = db.transaction([RECORDS, META], 'readwrite');
+    const done = transactionDone(transaction);
+    const prefix = `${cache}|`;
+    let removed = 0;
+    const request = transaction.objectStore(RECORDS).openCursor(getCacheRange(cache));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const { id, value } = cursor.value;
+      if (predicate(id.slice(prefix.length), value)) {
+        cursor.delete();
+        transaction.objectStore(META).delete(id);
+        removed++;
+      }
+      cursor.continue();
+    };
+    await done;
+    if (removed > 0) {
+      this.totalBytes = null;
+    }
+    return removed;
+  }
+
+  async clear(cache: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([RECORDS, META], 'readwrite');
+    transaction.objectStore(RECORDS).delete(getCacheRange(cache));
+    transaction.objectStore(META).delete(getCacheRange(cache));
+    await transactionDone(transaction);
+    this.totalBytes = null;
+  }
+
+  // Every entry of one cache, without touching lastAccess
+  async getAll(cache: string): Promise<{ key: string; value: unknown }[]> {
+    const db = await this.open();
+    const store = db.transaction(RECORDS, 'readonly').objectStore(RECORDS);
+    const records = await requestToPromise(store.getAll(getCacheRange(cache)));
+    const prefix = `${cache}|`;
+    return records.map(({ id, value }) => ({ key: id.slice(prefix.length), value }));
+  }
+
+  async listMeta(cache?: string): Promise<CacheRecordMeta[]> {
+    const db = await this.open();
+    const store = db.transaction(META, 'readonly').objectStore(META);
+    const request = cache ? store.index('cache').getAll(cache) : store.getAll();
+    return requestToPromise(request) as Promise<CacheRecordMeta[]>;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const metas = await this.listMeta();
+    const stats: CacheStats = { entries: 0, bytes: 0, budget: this.budget, caches: {} };
+    for (const meta of metas) {
+      stats.entries++;
+      stats.bytes += meta.size;
+      const perCache = stats.caches[meta.cache] ?? (stats.caches[meta.cache] = { entries: 0, bytes: 0 });
+      perCache.entries++;
+      perCache.bytes += meta.size;
+    }
+    return stats;
+  }
+
+  // Drop least recently used entries, across all caches, until the total fits the budget.
+  // Only scans the entries once the running total says the budget is exceeded. Writes can land
+  // between the scan and the deletes, so the total is counted again afterwards.
+  private async evict(): Promise<void> {
+    if (await this.getTotalBytes() <= this.budget) {
+      return;
+    }
+
+    await this.flushAccess();
+    const metas = await this.listMeta();
+    let total = metas.reduce((sum, meta) => sum + meta.size, 0);
+
+    const db = await this.open();
+    const transaction = db.transaction([RECORDS, META], 'readwrite');
+    for (const meta of metas.sort((a, b) => a.lastAccess - b.lastAccess)) {
+      if (total <= this.budget) break;
+      transaction.objectStore(RECORDS).delete(meta.id);
+      transaction.objectStore(META).delete(meta.id);
+      total -= meta.size;
+    }
+    await transactionDone(transaction);
+    this.totalBytes = null;
+  }
+}
@@ -0,0 +1,99 @@
+// Subset of the Unicode confusables table (UTS #39, confusables.txt) used to build
+// domain skeletons in background.ts. Hostnames reach us already IDNA-mapped (lowercase,
+// fullwidth folded), so only characters that can survive that mapping are listed.
+// Each entry maps a character to the ASCII it is easily mistaken for.
+export const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0430': 'a', // а cyrillic small letter a
+  '\u0431': '6', // б cyrillic small letter be
+  '\u0433': 'r', // г cyrillic small letter ghe
+  '\u0435': 'e', // е cyrillic small letter ie
+  '\u0455': 's', // ѕ cyrillic small letter dze
+  '\u0456': 'i', // і cyrillic small letter byelorussian-ukrainian i
+  '\u0458': 'j', // ј cyrillic small letter je
+  '\u043A': 'k', // к cyrillic small letter ka
+  '\u043C': 'm', // м cyrillic small letter em
+  '\u043D': 'h', // н cyrillic small letter en
+  '\u043E': 'o', // о cyrillic small letter o
+  '\u0440': 'p', // р cyrillic small letter er
+  '\u0441': 'c', // с cyrillic small letter es
+  '\u0442': 't', // т cyrillic small letter te
+  '\u0443': 'y', // у cyrillic small letter u
+  '\u0445': 'x', // х cyrillic small letter ha
+  '\u044C': 'b', // ь cyrillic small letter soft sign
+  '\u0461': 'w', // ѡ cyrillic small letter omega
+  '\u0475': 'v', // ѵ cyrillic small letter izhitsa
+  '\u04AF': 'y', // ү cyrillic small letter straight u
+  '\u04BB': 'h', // һ cyrillic small letter shha
+  '\u04CF': 'l', // ӏ cyrillic small letter palochka
+  '\u04E1': '3', // ӡ cyrillic small letter abkhasian dze
+  '\u0501': 'd', // ԁ cyrillic small letter komi de
+  '\u050D': 'g', // ԍ cyrillic small letter komi sje
+  '\u051B': 'q', // ԛ cyrillic small letter qa
+  '\u051D': 'w', // ԝ cyrillic small letter we
+  // Greek
+  '\u03B1': 'a', // α greek small letter alpha
+  '\u03B3': 'y', // γ greek small letter gamma
+  '\u03B5': 'e', // ε greek small letter epsilon
+  '\u03B9': 'i', // ι greek small letter iota
+  '\u03BA': 'k', // κ greek small letter kappa
+  '\u03BD': 'v', // ν greek small letter nu
+  '\u03BF': 'o', // ο greek small letter omicron
+  '\u03C1': 'p', // ρ greek small letter rho
+  '\u03C2': 'c', // ς greek small letter final sigma
+  '\u03C4': 't', // τ greek small letter tau
+  '\u03C5': 'u', // υ greek small letter upsilon
+  '\u03C7': 'x', // χ greek small letter chi
+  '\u03C9': 'w', // ω greek small letter omega
+  '\u03F2': 'c', // ϲ greek lunate sigma symbol
+  '\u03F3': 'j', // ϳ greek letter yot
+  // Armenian
+  '\u0561': 'w', // ա armenian small letter ayb
+  '\u0563': 'q', // գ armenian small letter gim
+  '\u0566': 'q', // զ armenian small letter za
+  '\u0570': 'h', // հ armenian small letter ho
+  '\u0575': 'j', // յ armenian small letter yi
+  '\u0578': 'n', // ո armenian small letter vo
+  '\u057C': 'n', // ռ armenian small letter ra
+  '\u057D': 'u', // ս armenian small letter seh
+  '\u0581': 'g', // ց armenian small letter co
+  '\u0585': 'o', // օ armenian small letter oh
+  '\u0584': 'f', // ք armenian small letter keh
+  // Latin lookalikes outside ASCII
+  '\u0131': 'i', // ı latin small letter dotless i
+  '\u0237': 'j', // ȷ latin small letter dotless j
+  '\u0251': 'a', // ɑ latin small letter alpha
+  '\u0261': 'g', // ɡ latin small letter script g
+  '\u0269': 'i', // ɩ latin small letter iota
+  '\u026A': 'i', // ɪ latin letter small capital i
+  '\u0274': 'n', // ɴ latin letter small capital n
+  '\u0280': 'r', // ʀ latin letter small capital r
+  '\u028F': 'y', // ʏ latin letter small capital y
+  '\u1D00': 'a', // ᴀ latin letter small capital a
+  '\u1D04': 'c', // ᴄ latin letter small capital c
+  '\u1D05': 'd', // ᴅ latin letter small capital d
+  '\u1D07': 'e', // ᴇ latin letter small capital e
+  '\u1D0B': 'k', // ᴋ latin letter small capital k
+  '\u1D0D': 'm', // ᴍ latin letter small capital m
+  '\u1D0F': 'o', // ᴏ latin letter small capital o
+  '\u1D18': 'p', // ᴘ latin letter small capital p
+  '\u1D1B': 't', // ᴛ latin letter small capital t
+  '\u1D1C': 'u', // ᴜ latin letter small capital u
+  '\u1D20': 'v', // ᴠ latin letter small capital v
+  '\u1D21': 'w', // ᴡ latin letter small capital w
+  '\u1D22': 'z', // ᴢ latin letter small capital z
+  '\u00DF': 'b', // ß latin small letter sharp s
+  '\u00F8': 'o', // ø latin small letter o with stroke
+  '\u0142': 'l', // ł latin small letter l with stroke
+  '\u0111': 'd', // đ latin small letter d with stroke
+  '\u0127': 'h', // ħ latin small letter h with stroke
+  // Round digits and letters from other scripts
+  '\u0966': 'o', // ० devanagari digit zero
+  '\u09E6': 'o', // ০ bengali digit zero
+  '\u0A66': 'o', // ੦ gurmukhi digit zero
+  '\u0AE6': 'o', // ૦ gujarati digit zero
+  '\u0E50': 'o', // ๐ thai digit zero
+  '\u0ED0': 'o', // ໐ lao digit zero
+  '\u101D': 'o', // ဝ myanmar letter wa
+  '\u10E7': 'y', // ყ georgian letter qar
+};
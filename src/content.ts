@@ -10,6 +10,7 @@ enum LinkType {
   Tel = 'tel',
   Anchor = 'anchor',
   Blocked = 'blocked',
+  Broken = 'broken',
 }
 
 enum RiskLevel {
@@ -24,8 +25,15 @@ interface VideoPlatform {
   embedUrl?: string;
 }
 
+interface RiskSignal {
+  category: string;
+  reason: string;
+  weight: number;
+}
+
 interface PreflightResult {
   domain: string;
+  registrableDomain?: string;
   type: LinkType;
   risk: RiskLevel;
   reasons: string[];
@@ -35,18 +43,78 @@ interface PreflightResult {
   redirectCount?: number;
   textMismatch?: { textDomain: string; linkDomain: string };
   videoPlatform?: VideoPlatform;
+  score?: number;
+  signals?: RiskSignal[];
+  matchedRule?: string;
+  skipPreview?: boolean;
+  lookalike?: { domain: string; technique: string };
+  unicodeDomain?: string;
+  via?: string[];
+  redirectChain?: RedirectHop[];
+  httpStatus?: number;
+  connectionError?: string;
+}
+
+interface PreviewErrorInfo {
+  kind: 'network' | 'timeout' | 'http' | 'bot-protection' | 'parse' | 'ai-quota' | 'ai-crash';
+  message: string;
+  status?: number;
+  retryable: boolean;
+  retryAt?: number;
+  cached?: boolean;
+}
+
+interface ClientRedirectCheck {
+  kind: 'meta-refresh' | 'script' | 'interstitial';
+  target: string;
+  domain: string;
+  risk: RiskLevel;
+  score: number;
+  reasons: string[];
+  signals: RiskSignal[];
+}
+
+interface RedirectHop {
+  url: string;
+  status: number;
+  domainChanged: boolean;
+  downgraded: boolean;
+}
+
+interface ArchiveSnapshot {
+  url: string;
+  timestamp: string;
 }
 
 interface LinkState {
   element: HTMLAnchorElement;
   previewElement: HTMLElement | null;
   preflightResult: PreflightResult | null;
+  requestId: string;
   hoverTimeout?: number;
 }
 
 const activeLinks = new Map<HTMLAnchorElement, LinkState>();
 const hoverTimeouts = new Map<HTMLAnchorElement, number>();
 let isExtensionEnabled = true;
+let requestCounter = 0;
+
+// Unique per hover, and per frame since every frame in the tab hears previewUpdate
+function createRequestId(): string {
+  requestCounter++;
+  return `${Math.random().toString(36).slice(2, 10)}-${requestCounter}`;
+}
+
+// Find the hover a background message belongs to (null if it ended or was replaced)
+function findLinkStateByRequestId(requestId: string | undefined): LinkState | null {
+  if (!requestId) return null;
+  for (const state of activeLinks.values()) {
+    if (state.requestId === requestId) {
+      return state;
+    }
+  }
+  return null;
+}
 
 chrome.storage.local.get(['linkPreviewEnabled'], (result) => {
   isExtensionEnabled = result.linkPreviewEnabled !== false;
@@ -88,11 +156,8 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
   `;
   
   const aurora = document.createElement('div');
-  const auroraColor = result.risk === RiskLevel.Red 
-    ? 'rgba(255, 71, 87, 0.6)' 
-    : result.risk === RiskLevel.Amber 
-    ? 'rgba(255, 165, 2, 0.6)' 
-    : 'rgba(124, 158, 255, 0.6)';
+  aurora.className = 'risk-aurora';
+  const auroraColor = getAuroraColor(result.risk);
   aurora.style.cssText = `
     position: absolute;
     top: -1px;
@@ -115,7 +180,7 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
   `;
   
   const favicon = document.createElement('img');
-  favicon.src = `https://www.google.com/s2/favicons?domain=${result.domain}&sz=32`;
+  favicon.src = `https://www.google.com/s2/favicons?domain=${result.registrableDomain || result.domain}&sz=32`;
   favicon.style.cssText = `
     width: 18px;
     height: 18px;
@@ -128,7 +193,21 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
   domainContainer.appendChild(favicon);
   
   const domainText = document.createElement('div');
-  domainText.textContent = result.domain;
+  const registrable = result.registrableDomain;
+  if (registrable && registrable !== result.domain && result.domain.endsWith(`.${registrable}`)) {
+    // Dim the subdomain so the site that actually owns the link stands out
+    const subdomain = document.createElement('span');
+    subdomain.className = 'subdomain';
+    subdomain.textContent = result.domain.slice(0, -registrable.length);
+    subdomain.style.cssText = `
+      font-weight: 400;
+      color: var(--text-weak);
+    `;
+    domainText.appendChild(subdomain);
+    domainText.appendChild(document.createTextNode(registrable));
+  } else {
+    domainText.textContent = result.domain;
+  }
   domainText.style.cssText = `
     font-weight: 600;
     font-size: 14px;
@@ -139,6 +218,24 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
     letter-spacing: -0.01em;
   `;
   domainContainer.appendChild(domainText);
+  
+  // IDN: show what the punycode name actually spells
+  if (result.unicodeDomain) {
+    const unicodeText = document.createElement('div');
+    unicodeText.className = 'unicode-domain';
+    unicodeText.textContent = result.unicodeDomain;
+    unicodeText.title = 'Decoded internationalized domain name';
+    unicodeText.style.cssText = `
+      font-size: 12px;
+      color: var(--text-weak);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      min-width: 0;
+    `;
+    domainContainer.appendChild(unicodeText);
+  }
+  
   popup.appendChild(domainContainer);
   
   const chipsRow = document.createElement('div');
@@ -160,15 +257,35 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
   const riskBadge = document.createElement('span');
   riskBadge.className = 'risk-badge';
   riskBadge.setAttribute('data-risk', result.risk);
-  riskBadge.textContent = result.risk === RiskLevel.Green 
-    ? '✓ Safe' 
-    : result.risk === RiskLevel.Amber 
-    ? '⚠ Caution' 
-    : '✕ Unsafe';
+  riskBadge.textContent = getRiskBadgeText(result.risk);
   chipsRow.appendChild(riskBadge);
   
   popup.appendChild(chipsRow);
   
+  if (result.type === LinkType.Broken) {
+    popup.appendChild(createBrokenLinkNotice(result));
+  }
+  
+  // The domain above is the real destination; say what the link was wrapped in
+  if (result.via && result.via.length > 0) {
+    const viaText = document.createElement('div');
+    viaText.className = 'via-chain';
+    viaText.textContent = `Via ${result.via.join(' → ')}`;
+    viaText.style.cssText = `
+      font-size: 11px;
+      color: var(--text-weak);
+      margin-bottom: 8px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    `;
+    popup.appendChild(viaText);
+  }
+  
+  if (result.redirectChain && result.redirectChain.length > 1) {
+    popup.appendChild(createRedirectChain(result.redirectChain));
+  }
+  
   // Show warning if anchor text doesn't match link domain
   if (result.textMismatch) {
     const mismatchWarning = document.createElement('div');
@@ -185,6 +302,23 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
     popup.appendChild(mismatchWarning);
   }
   
+  // Name the real site a typosquatted domain is imitating
+  if (result.lookalike) {
+    const lookalikeWarning = document.createElement('div');
+    lookalikeWarning.className = 'lookalike-warning';
+    lookalikeWarning.style.cssText = `
+      font-size: 11px;
+      color: var(--text-weak);
+      margin-top: 8px;
+      padding: 6px 10px;
+      background: rgba(255, 71, 87, 0.1);
+      border-left: 2px solid #ff4757;
+      border-radius: 4px;
+    `;
+    lookalikeWarning.textContent = `Looks like "${result.lookalike.domain}", but it is a different site`;
+    popup.appendChild(lookalikeWarning);
+  }
+  
   // Show email address for mailto links
   if (result.type === LinkType.Mailto) {
     try {
@@ -359,9 +493,24 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
     popup.appendChild(sizeText);
   }
   
-  // Show risk reasons
-  if (result.reasons.length > 0) {
+  // Let the user know one of their own rules decided this link
+  if (result.matchedRule) {
+    const ruleText = document.createElement('div');
+    ruleText.textContent = `Rule: ${result.matchedRule}`;
+    ruleText.style.cssText = `
+      font-size: 11px;
+      color: var(--accent);
+      margin-top: 6px;
+    `;
+    popup.appendChild(ruleText);
+  }
+  
+  // Show every signal that contributed to the score, heaviest first
+  if (result.signals && result.signals.length > 0) {
+    popup.appendChild(createRiskBreakdown(result.signals, result.score ?? 0));
+  } else if (result.reasons.length > 0) {
     const reasonsText = document.createElement('div');
+    reasonsText.className = 'risk-breakdown';
     reasonsText.textContent = `Why: ${result.reasons.join(', ')}`;
     reasonsText.style.cssText = `
       font-size: 11.5px;
@@ -376,6 +525,249 @@ function createPreviewPopup(result: PreflightResult): HTMLElement {
   return popup;
 }
 
+// Dead links get a plain statement instead of a preview, so nobody bothers clicking
+function createBrokenLinkNotice(result: PreflightResult): HTMLElement {
+  const notice = document.createElement('div');
+  notice.className = 'broken-link-notice';
+  notice.style.cssText = `
+    font-size: 11.5px;
+    color: var(--text-weak);
+    margin-bottom: 8px;
+    padding: 6px 10px;
+    background: rgba(148, 163, 184, 0.12);
+    border-left: 2px solid #94a3b8;
+    border-radius: 4px;
+  `;
+  
+  const title = document.createElement('div');
+  title.textContent = result.connectionError
+    ? 'Broken link (domain not found)'
+    : `Broken link (${result.httpStatus})`;
+  title.style.cssText = `
+    font-weight: 600;
+    color: var(--text);
+  `;
+  notice.appendChild(title);
+  
+  const detail = document.createElement('div');
+  if (result.connectionError) {
+    detail.textContent = 'The domain does not exist. It may have expired or been mistyped.';
+  } else if (result.httpStatus === 410) {
+    detail.textContent = 'The site says this page was removed for good.';
+  } else {
+    detail.textContent = 'The site says this page does not exist.';
+  }
+  notice.appendChild(detail);
+  
+  return notice;
+}
+
+function createRiskBreakdown(signals: RiskSignal[], score: number): HTMLElement {
+  const breakdown = document.createElement('div');
+  breakdown.className = 'risk-breakdown';
+  breakdown.style.cssText = `
+    font-size: 11.5px;
+    color: var(--text-weak);
+    margin-top: 6px;
+    padding-top: 6px;
+    border-top: 1px solid var(--line);
+  `;
+  
+  const title = document.createElement('div');
+  title.style.cssText = `
+    font-weight: 600;
+    margin-bottom: 4px;
+    text-transform: uppercase;
+    font-size: 10px;
+    letter-spacing: 0.5px;
+  `;
+  title.textContent = `Why · risk score ${score}`;
+  breakdown.appendChild(title);
+  
+  signals.forEach((signal) => {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      margin: 2px 0;
+    `;
+    
+    const reason = document.createElement('span');
+    reason.textContent = `• ${signal.reason}`;
+    
+    const weight = document.createElement('span');
+    weight.style.cssText = `
+      flex-shrink: 0;
+      font-family: monospace;
+      font-size: 10px;
+      opacity: 0.8;
+    `;
+    weight.textContent = `${signal.category} +${signal.weight}`;
+    
+    row.appendChild(reason);
+    row.appendChild(weight);
+    breakdown.appendChild(row);
+  });
+  
+  return breakdown;
+}
+
+function getRiskBadgeText(risk: RiskLevel): string {
+  return risk === RiskLevel.Green 
+    ? '✓ Safe' 
+    : risk === RiskLevel.Amber 
+    ? '⚠ Caution' 
+    : '✕ Unsafe';
+}
+
+function getAuroraColor(risk: RiskLevel): string {
+  return risk === RiskLevel.Red 
+    ? 'rgba(255, 71, 87, 0.6)' 
+    : risk === RiskLevel.Amber 
+    ? 'rgba(255, 165, 2, 0.6)' 
+    : 'rgba(124, 158, 255, 0.6)';
+}
+
+const CLIENT_REDIRECT_LABELS: Record<ClientRedirectCheck['kind'], string> = {
+  'meta-refresh': 'meta refresh',
+  script: 'script',
+  interstitial: 'interstitial page',
+};
+
+// The fetched page turned out to forward somewhere else; show where and re-rate the link
+function applyClientRedirect(state: LinkState, preview: HTMLElement, check: ClientRedirectCheck): void {
+  const result = state.preflightResult!;
+  result.risk = check.risk;
+  result.score = check.score;
+  result.reasons = check.reasons;
+  result.signals = check.signals;
+  
+  const riskBadge = preview.querySelector('.risk-badge');
+  if (riskBadge) {
+    riskBadge.setAttribute('data-risk', check.risk);
+    riskBadge.textContent = getRiskBadgeText(check.risk);
+  }
+  
+  const aurora = preview.querySelector<HTMLElement>('.risk-aurora');
+  if (aurora) {
+    const auroraColor = getAuroraColor(check.risk);
+    aurora.style.background = `linear-gradient(90deg, ${auroraColor} 0%, ${auroraColor} 50%, transparent 100%)`;
+  }
+  
+  if (!preview.querySelector('.client-redirect-warning')) {
+    const warning = document.createElement('div');
+    warning.className = 'client-redirect-warning';
+    warning.style.cssText = `
+      font-size: 11px;
+      color: var(--text-weak);
+      margin-top: 8px;
+      margin-bottom: 8px;
+      padding: 6px 10px;
+      background: rgba(251, 191, 36, 0.1);
+      border-left: 2px solid #fbbf24;
+      border-radius: 4px;
+      overflow-wrap: anywhere;
+    `;
+    warning.textContent = `Page forwards to "${check.domain}" via ${CLIENT_REDIRECT_LABELS[check.kind]}`;
+    warning.title = check.target;
+    preview.querySelector('.chips-row')?.after(warning);
+  }
+  
+  const breakdown = createRiskBreakdown(check.signals, check.score);
+  const existing = preview.querySelector('.risk-breakdown');
+  if (existing) {
+    existing.replaceWith(breakdown);
+  } else {
+    preview.querySelector('.client-redirect-warning')?.after(breakdown);
+  }
+}
+
+// Collapsed "N redirects" row that expands into every hop the link went through
+function createRedirectChain(hops: RedirectHop[]): HTMLElement {
+  const container = document.createElement('div');
+  container.className = 'redirect-chain';
+  container.dataset.interactive = 'true';
+  container.style.cssText = `
+    font-size: 11px;
+    color: var(--text-weak);
+    margin-bottom: 8px;
+  `;
+  
+  const redirects = hops.length - 1;
+  const flagged = hops.some(hop => hop.domainChanged || hop.downgraded);
+  
+  const toggle = document.createElement('div');
+  toggle.style.cssText = `
+    cursor: pointer;
+    user-select: none;
+  `;
+  
+  const list = document.createElement('div');
+  list.style.cssText = `
+    display: none;
+    margin-top: 4px;
+    padding-left: 8px;
+    border-left: 2px solid var(--line);
+  `;
+  
+  const setExpanded = (expanded: boolean) => {
+    list.style.display = expanded ? 'block' : 'none';
+    toggle.textContent = `${expanded ? '▾' : '▸'} ${redirects} redirect${redirects === 1 ? '' : 's'}${flagged ? ' ⚠' : ''}`;
+  };
+  toggle.addEventListener('click', () => setExpanded(list.style.display === 'none'));
+  setExpanded(false);
+  
+  hops.forEach((hop) => {
+    const row = document.createElement('div');
+    row.style.cssText = `
+      display: flex;
+      gap: 6px;
+      margin: 2px 0;
+      min-width: 0;
+    `;
+    
+    const status = document.createElement('span');
+    status.style.cssText = `
+      flex-shrink: 0;
+      font-family: monospace;
+      font-size: 10px;
+      opacity: 0.8;
+    `;
+    status.textContent = hop.status ? String(hop.status) : '---';
+    
+    const url = document.createElement('span');
+    url.title = hop.url;
+    url.style.cssText = `
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      min-width: 0;
+    `;
+    url.textContent = hop.url.replace(/^https?:\/\//, '');
+    
+    row.appendChild(status);
+    row.appendChild(url);
+    
+    const flags = [hop.domainChanged && 'new domain', hop.downgraded && 'HTTP'].filter(Boolean);
+    if (flags.length > 0) {
+      const flag = document.createElement('span');
+      flag.style.cssText = `
+        flex-shrink: 0;
+        color: #fbbf24;
+      `;
+      flag.textContent = `⚠ ${flags.join(', ')}`;
+      row.appendChild(flag);
+    }
+    
+    list.appendChild(row);
+  });
+  
+  container.appendChild(toggle);
+  container.appendChild(list);
+  return container;
+}
+
 function getTypeLabel(type: LinkType): string {
   const labels: Record<LinkType, string> = {
     [LinkType.Webpage]: '🌐 Webpage',
@@ -387,6 +779,7 @@ function getTypeLabel(type: LinkType): string {
     [LinkType.Tel]: '📞 Phone',
     [LinkType.Anchor]: '🔗 Anchor',
     [LinkType.Blocked]: '🚫 Blocked',
+    [LinkType.Broken]: '💔 Broken',
   };
   return labels[type] || '🔗 Link';
 }
@@ -637,10 +1030,12 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
     return; // Already processing this one
   }
   
+  const requestId = createRequestId();
   const state: LinkState = {
     element: link,
     previewElement: null,
     preflightResult: null,
+    requestId,
   };
   
   activeLinks.set(link, state);
@@ -652,6 +1047,7 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
       href: url,
       anchorText: link.textContent?.trim() || '',
       pageOrigin: window.location.href,
+      requestId,
     },
     (response) => {
       if (chrome.runtime.lastError) {
@@ -660,8 +1056,9 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
         return;
       }
       
+      // Ignore responses for a hover that already ended (or was replaced by a new one)
       const currentState = activeLinks.get(link);
-      if (!currentState) return;
+      if (!currentState || currentState.requestId !== requestId) return;
       
       if (response && response.success && response.result) {
         currentState.preflightResult = response.result;
@@ -675,6 +1072,7 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
         const preview = createPreviewPopup(response.result);
         document.body.appendChild(preview);
         positionPreview(link, preview);
+        enableInteractiveParts(link, preview);
         
         currentState.previewElement = preview;
         
@@ -683,28 +1081,13 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
         const shouldRequestPreview = 
           ((result.type === LinkType.Webpage || result.type === LinkType.PDF || result.type === LinkType.Image) && 
           result.fetchPlan === 'partial-get' ||
-          result.type === LinkType.Download && result.fetchPlan === 'head-only') &&
-          (result.risk === RiskLevel.Green || result.risk === RiskLevel.Amber);
+          result.type === LinkType.Download && result.fetchPlan === 'head-only' ||
+          result.type === LinkType.Broken) &&
+          (result.risk === RiskLevel.Green || result.risk === RiskLevel.Amber) &&
+          !result.skipPreview;
         
         if (shouldRequestPreview) {
-          // Show loading spinner for whatever we're fetching
-          if (result.type === LinkType.PDF) {
-            addOutlineLoading(preview);
-            addSummaryLoading(preview);
-          } else if (result.type === LinkType.Webpage) {
-            addOverviewLoading(preview);
-          } else if (result.type === LinkType.Image) {
-            addImageDescriptionLoading(preview);
-          } else if (result.type === LinkType.Download) {
-            addOverviewLoading(preview);
-          } else {
-            addLoadingState(preview);
-          }
-          
-          chrome.runtime.sendMessage({
-            type: 'generatePreview',
-            preflightResult: result,
-          });
+          requestPreview(currentState);
         }
       } else {
         cleanup(link);
@@ -713,6 +1096,70 @@ function handleLinkHover(link: HTMLAnchorElement, url: string): void {
   );
 }
 
+// Show loading spinners for whatever we're fetching and ask the background for the preview
+function requestPreview(state: LinkState, retry = false): void {
+  const preview = state.previewElement;
+  const result = state.preflightResult;
+  if (!preview || !result) return;
+  
+  if (result.type === LinkType.PDF) {
+    addOutlineLoading(preview);
+    addSummaryLoading(preview);
+  } else if (result.type === LinkType.Webpage) {
+    addOverviewLoading(preview);
+  } else if (result.type === LinkType.Image) {
+    addImageDescriptionLoading(preview);
+  } else if (result.type === LinkType.Download) {
+    addOverviewLoading(preview);
+  } else if (result.type === LinkType.Broken) {
+    addArchiveLoading(preview);
+  } else {
+    addLoadingState(preview);
+  }
+  
+  chrome.runtime.sendMessage({
+    type: 'generatePreview',
+    requestId: state.requestId,
+    preflightResult: result,
+    retry,
+    pageOrigin: window.location.href,
+  });
+}
+
+// The popup ignores the pointer except for parts marked data-interactive. Those need the
+// popup to outlive the pointer leaving the link, long enough to cross the gap to them.
+const POPUP_HIDE_DELAY = 250;
+const hideTimeouts = new Map<HTMLAnchorElement, number>();
+
+function scheduleCleanup(link: HTMLAnchorElement): void {
+  if (hideTimeouts.has(link)) return;
+  hideTimeouts.set(link, window.setTimeout(() => cleanup(link), POPUP_HIDE_DELAY));
+}
+
+function cancelScheduledCleanup(link: HTMLAnchorElement): void {
+  const timeoutId = hideTimeouts.get(link);
+  if (timeoutId) {
+    clearTimeout(timeoutId);
+    hideTimeouts.delete(link);
+  }
+}
+
+function bindInteractive(link: HTMLAnchorElement, element: HTMLElement): void {
+  if (element.dataset.interactiveBound) return;
+  element.dataset.interactiveBound = 'true';
+  element.style.pointerEvents = 'auto';
+  element.addEventListener('mouseenter', () => cancelScheduledCleanup(link));
+  element.addEventListener('mouseleave', (event) => {
+    const related = event.relatedTarget as Node | null;
+    if (related && (link.contains(related) || element.contains(related))) return;
+    scheduleCleanup(link);
+  });
+}
+
+function enableInteractiveParts(link: HTMLAnchorElement, preview: HTMLElement): void {
+  preview.querySelectorAll<HTMLElement>('[data-interactive]').forEach((element) => bindInteractive(link, element));
+}
+
 function cleanup(link: HTMLAnchorElement): void {
   // Clear any pending hover timeout
   const timeoutId = hoverTimeouts.get(link);
@@ -720,10 +1167,19 @@ function cleanup(link: HTMLAnchorElement): void {
     clearTimeout(timeoutId);
     hoverTimeouts.delete(link);
   }
+  cancelScheduledCleanup(link);
   
   const state = activeLinks.get(link);
   if (!state) return;
   
+  // Stop the background's fetches and AI prompts for this hover
+  chrome.runtime.sendMessage({
+    type: 'cancelRequest',
+    requestId: state.requestId,
+  }).catch(() => {
+    // Extension context may be gone (reload/update), nothing left to cancel
+  });
+  
   if (state.previewElement && state.previewElement.parentNode) {
     state.previewElement.parentNode.removeChild(state.previewElement);
   }
@@ -737,6 +1193,9 @@ function handleLinkMouseOver(event: MouseEvent): void {
   
   if (!link || !link.href) return;
   
+  // Came back from the popup before it was hidden
+  cancelScheduledCleanup(link);
+  
   // Skip if we're already handling this link
   if (activeLinks.has(link) || hoverTimeouts.has(link)) return;
   
@@ -761,6 +1220,11 @@ function handleLinkMouseOut(event: MouseEvent): void {
     return;
   }
   
+  if (activeLinks.get(link)?.previewElement?.querySelector('[data-interactive]')) {
+    scheduleCleanup(link);
+    return;
+  }
+  
   cleanup(link);
 }
 
@@ -819,71 +1283,173 @@ function handleLinkClick(event: MouseEvent): void {
 // Handle preview updates from background script
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'previewUpdate') {
-    updatePreviewWithAIContent(message.update);
+    updatePreviewWithAIContent(message.requestId, message.update);
   }
 });
 
-function updatePreviewWithAIContent(update: any): void {
-  // Find which preview to update
-  for (const [link, state] of activeLinks.entries()) {
-    if (state.previewElement && state.preflightResult) {
-      const preview = state.previewElement;
-      
-      if (update.aiAvailable === false) {
-        addAIUnavailableMessage(preview, update.reason || 'AI features not available');
-        return;
-      }
-      
-      if (update.clearLoading) {
-        // Remove all loading spinners
-        removeLoadingState(preview);
-        removeOutlineLoading(preview);
-        removeSummaryLoading(preview);
-        removeOverviewLoading(preview);
-        removeImageDescriptionLoading(preview);
-        return;
-      }
-      
-      if (update.cached) {
-        addCachedBadge(preview);
-      }
-      
-      if (update.overview) {
-        updateOverview(preview, update.overview);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.summary && state.preflightResult?.type === LinkType.PDF) {
-        updateSummary(preview, update.summary);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.outline && update.outline.length > 0) {
-        updateOutline(preview, update.outline);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.imageUrl) {
-        addImageThumbnail(preview, update.imageUrl);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.imageDescription) {
-        updateImageDescription(preview, update.imageDescription);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.riskNote) {
-        updateRiskNote(preview, update.riskNote);
-        repositionPreview(link, preview);
-      }
-      
-      if (update.error && state.preflightResult?.type === LinkType.PDF) {
-        updateSummary(preview, update.error);
-      }
-      
-      break; // Only update the first match
+function updatePreviewWithAIContent(requestId: string | undefined, update: any): void {
+  // Only the hover that asked for this preview gets it; stale or cancelled ids are dropped
+  const state = findLinkStateByRequestId(requestId);
+  if (!state || !state.previewElement || !state.preflightResult) {
+    return;
+  }
+  
+  const link = state.element;
+  const preview = state.previewElement;
+  
+  if (update.aiAvailable === false) {
+    addAIUnavailableMessage(preview, update.reason || 'AI features not available');
+    return;
+  }
+  
+  if (update.cached) {
+    addCachedBadge(preview, update.cachedAt);
+  }
+  
+  // Comes before the overview, which for a dead link summarizes the archived copy
+  if (update.archive !== undefined) {
+    showArchivedSnapshot(state, preview, update.archive);
+    if (update.archive && !update.cached && !update.overview) {
+      addOverviewLoading(preview);
     }
+    repositionPreview(link, preview);
+  }
+  
+  if (update.overview) {
+    updateOverview(preview, update.overview);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.summary && state.preflightResult.type === LinkType.PDF) {
+    updateSummary(preview, update.summary);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.outline && update.outline.length > 0) {
+    updateOutline(preview, update.outline);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.imageUrl) {
+    addImageThumbnail(preview, update.imageUrl);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.imageDescription) {
+    updateImageDescription(preview, update.imageDescription);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.riskNote) {
+    updateRiskNote(preview, update.riskNote);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.clientRedirect) {
+    applyClientRedirect(state, preview, update.clientRedirect);
+    repositionPreview(link, preview);
+  }
+  
+  if (update.error) {
+    showPreviewError(state, preview, update.error);
+    repositionPreview(link, preview);
+  }
+}
+
+const PREVIEW_ERROR_MESSAGES: Record<PreviewErrorInfo['kind'], string> = {
+  'network': "Couldn't reach this site.",
+  'timeout': 'The site took too long to respond.',
+  'http': 'The site answered with an error.',
+  'bot-protection': 'This site blocks automated previews. Basic information is still available.',
+  'parse': "Couldn't read the content of this link.",
+  'ai-quota': 'The on-device AI has hit its usage limit. Try again later.',
+  'ai-crash': 'The on-device AI failed on this preview.',
+};
+
+function getPreviewErrorMessage(error: PreviewErrorInfo): string {
+  if (error.kind === 'http' && error.status) {
+    return `The site answered with an error (HTTP ${error.status}).`;
+  }
+  return PREVIEW_ERROR_MESSAGES[error.kind] ?? 'Preview unavailable.';
+}
+
+function showPreviewError(state: LinkState, preview: HTMLElement, error: PreviewErrorInfo): void {
+  removeLoadingState(preview);
+  removeArchiveLoading(preview);
+  removeOutlineLoading(preview);
+  removeSummaryLoading(preview);
+  removeOverviewLoading(preview);
+  removeImageDescriptionLoading(preview);
+  preview.querySelector('.preview-error')?.remove();
+  
+  const message = document.createElement('div');
+  message.className = 'preview-error';
+  message.setAttribute('data-kind', error.kind);
+  message.title = error.message;
+  message.style.cssText = `
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 8px;
+    margin-top: 8px;
+    padding: 6px 10px;
+    background: rgba(255, 165, 0, 0.1);
+    border-left: 2px solid #ffa502;
+    border-radius: 4px;
+    font-size: 11px;
+    color: var(--text-weak);
+  `;
+  
+  const text = document.createElement('span');
+  text.textContent = error.cached
+    ? `Failed recently. ${getPreviewErrorMessage(error)}`
+    : getPreviewErrorMessage(error);
+  message.appendChild(text);
+  
+  if (error.retryAt) {
+    message.title = `${error.message}\nNext try after ${new Date(error.retryAt).toLocaleTimeString()}`;
+  }
+  
+  // A failure with a backoff is remembered, so it can always be retried by hand, skipping the backoff
+  if (error.retryable || error.cached || error.retryAt) {
+    const retryButton = document.createElement('button');
+    retryButton.className = 'preview-retry';
+    retryButton.textContent = 'Retry';
+    retryButton.dataset.interactive = 'true';
+    retryButton.style.cssText = `
+      flex-shrink: 0;
+      padding: 2px 8px;
+      font-size: 11px;
+      font-weight: 600;
+      color: var(--text);
+      background: transparent;
+      border: 1px solid var(--line);
+      border-radius: 4px;
+      cursor: pointer;
+    `;
+    retryButton.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      // The button is about to disappear from under the pointer, so the whole popup
+      // takes over keeping itself open until the pointer leaves it
+      bindInteractive(state.element, preview);
+      message.remove();
+      requestPreview(state, true);
+    });
+    message.appendChild(retryButton);
+  }
+  
+  preview.appendChild(message);
+  enableInteractiveParts(state.element, preview);
+  
+  // Try again by itself once the backoff is over, if the popup is still up by then. A recorded
+  // backoff is the background's say that another try is worth it, whatever `retryable` says.
+  if (error.retryAt) {
+    window.setTimeout(() => {
+      if (activeLinks.get(state.element) !== state || !message.isConnected) return;
+      message.remove();
+      requestPreview(state);
+    }, Math.max(0, error.retryAt - Date.now()));
   }
 }
 
@@ -1017,7 +1583,85 @@ function removeImageDescriptionLoading(preview: HTMLElement): void {
   }
 }
 
-function addCachedBadge(preview: HTMLElement): void {
+function addArchiveLoading(preview: HTMLElement): void {
+  if (preview.querySelector('.archive-loading')) {
+    return;
+  }
+  
+  const loadingEl = document.createElement('div');
+  loadingEl.className = 'preview-loading archive-loading';
+  
+  const spinner = document.createElement('div');
+  spinner.className = 'preview-loading-spinner';
+  
+  const text = document.createElement('span');
+  text.textContent = 'Checking the archive';
+  
+  loadingEl.appendChild(spinner);
+  loadingEl.appendChild(text);
+  preview.appendChild(loadingEl);
+}
+
+function removeArchiveLoading(preview: HTMLElement): void {
+  const loadingEl = preview.querySelector('.archive-loading');
+  if (loadingEl) {
+    loadingEl.remove();
+  }
+}
+
+// Where the dead link's content can still be read, if anywhere
+function showArchivedSnapshot(state: LinkState, preview: HTMLElement, archive: ArchiveSnapshot | null): void {
+  removeArchiveLoading(preview);
+  preview.querySelector('.archive-snapshot')?.remove();
+  
+  const container = preview.querySelector('.broken-link-notice') ?? preview;
+  // A button rather than a link, so hovering it does not open a preview of its own
+  const snapshot = document.createElement(archive ? 'button' : 'div');
+  snapshot.className = 'archive-snapshot';
+  snapshot.style.cssText = `
+    display: block;
+    margin-top: 4px;
+    padding: 0;
+    font-size: 11px;
+    text-align: left;
+    color: ${archive ? 'var(--accent)' : 'var(--text-weak)'};
+    background: transparent;
+    border: none;
+    cursor: ${archive ? 'pointer' : 'default'};
+  `;
+  
+  if (archive) {
+    const date = new Date(archive.timestamp).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+    snapshot.textContent = `Archived copy from ${date} ↗`;
+    snapshot.title = archive.url;
+    snapshot.dataset.interactive = 'true';
+    snapshot.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      window.open(archive.url, '_blank', 'noopener,noreferrer');
+    });
+  } else {
+    snapshot.textContent = 'No archived copy found';
+  }
+  
+  container.appendChild(snapshot);
+  enableInteractiveParts(state.element, preview);
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function addCachedBadge(preview: HTMLElement, cachedAt?: number): void {
   if (preview.querySelector('.cached-badge')) {
     return;
   }
@@ -1041,7 +1685,10 @@ function addCachedBadge(preview: HTMLElement): void {
     border: 1px solid rgba(124, 158, 255, 0.3);
     color: var(--accent);
   `;
-  cachedBadge.textContent = '⚡ Cached';
+  cachedBadge.textContent = cachedAt ? `⚡ Cached ${formatAge(cachedAt)}` : '⚡ Cached';
+  if (cachedAt) {
+    cachedBadge.title = `Preview from ${new Date(cachedAt).toLocaleString()}`;
+  }
   
   chipsRow.appendChild(cachedBadge);
 }
@@ -1052,6 +1699,7 @@ function addAIUnavailableMessage(preview: HTMLElement, reason: string): void {
   
   // Clear loading spinners
   removeLoadingState(preview);
+  removeArchiveLoading(preview);
   removeOutlineLoading(preview);
   removeSummaryLoading(preview);
   removeOverviewLoading(preview);
@@ -0,0 +1,100 @@
+// Parsing for the domain allowlist/blocklist import. Accepts, line by line:
+//   hosts files      0.0.0.0 ads.example.com
+//   plain lists      example.com
+//   Adblock filters  ||example.com^
+
+export interface ParsedDomainList {
+  domains: string[];
+  skipped: number;
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+const HOSTS_LINE_PATTERN = /^(?:\d{1,3}(?:\.\d{1,3}){3}|[0-9a-f]*:[0-9a-f:]*)\s+(.+)$/i;
+const ADBLOCK_LINE_PATTERN = /^\|\|([^\^/$*]+)\^?(?:\$.*)?$/;
+
+// Hostnames every hosts file maps to itself; never meant as list entries
+const HOSTS_BOILERPLATE = new Set([
+  'localhost',
+  'localhost.localdomain',
+  'local',
+  'broadcasthost',
+  'ip6-localhost',
+  'ip6-loopback',
+  'ip6-localnet',
+  'ip6-mcastprefix',
+  'ip6-allnodes',
+  'ip6-allrouters',
+  'ip6-allhosts',
+  '0.0.0.0',
+]);
+
+// Lowercase, drop a leading `*.` wildcard and a trailing dot; null if not a domain
+export function normalizeDomain(value: string): string | null {
+  let domain = value.trim().toLowerCase();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//.test(domain)) {
+    try {
+      domain = new URL(domain).hostname;
+    } catch {
+      return null;
+    }
+  }
+
+  domain = domain.replace(/^\*\./, '').replace(/\.$/, '');
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+function parseLine(line: string): string[] | null {
+  if (line.startsWith('@@')) {
+    // Adblock exception rules don't translate to a blocklist entry
+    return null;
+  }
+
+  const adblockMatch = line.match(ADBLOCK_LINE_PATTERN);
+  if (adblockMatch) {
+    const domain = normalizeDomain(adblockMatch[1]);
+    return domain ? [domain] : null;
+  }
+
+  const withoutComment = line.replace(/\s+#.*$/, '').trim();
+
+  const hostsMatch = withoutComment.match(HOSTS_LINE_PATTERN);
+  if (hostsMatch) {
+    const domains = hostsMatch[1]
+      .split(/\s+/)
+      .filter(host => !HOSTS_BOILERPLATE.has(host.toLowerCase()))
+      .map(normalizeDomain)
+      .filter((domain): domain is string => domain !== null);
+    return domains.length > 0 ? domains : null;
+  }
+
+  if (/\s/.test(withoutComment)) {
+    return null;
+  }
+
+  const domain = normalizeDomain(withoutComment);
+  return domain ? [domain] : null;
+}
+
+export function parseDomainList(text: string): ParsedDomainList {
+  const domains = new Set<string>();
+  let skipped = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    // Blank lines, hosts/plain comments and Adblock comments/headers
+    if (!line || line.startsWith('#') || line.startsWith('!') || line.startsWith('[') || line.startsWith('//')) {
+      continue;
+    }
+
+    const parsed = parseLine(line);
+    if (parsed) {
+      parsed.forEach(domain => domains.add(domain));
+    } else {
+      skipped++;
+    }
+  }
+
+  return { domains: Array.from(domains), skipped };
+}
@@ -2,7 +2,155 @@ import * as pdfjsLib from 'pdfjs-dist';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.mjs');
 
-function parseHTML(html: string, url: string): string {
+// A redirect done by the page itself rather than by an HTTP status
+interface ClientRedirect {
+  kind: 'meta-refresh' | 'script' | 'interstitial';
+  target: string;
+  delay?: number; // seconds, for meta refresh
+}
+
+const SCRIPT_REDIRECT_PATTERNS = [
+  /\b(?:window\.|document\.|top\.|self\.)?location(?:\.href)?\s*=\s*(['"`])([^'"`]+)\1/g,
+  /\b(?:window\.|document\.|top\.|self\.)?location\.(?:replace|assign)\(\s*(['"`])([^'"`]+)\1\s*\)/g,
+];
+
+// A line break only ends a statement after something that can end one; `if (x)` and `else` can't
+const STATEMENT_END = /[\w$'"`\]]/;
+const OPEN_KEYWORD = /\b(?:else|do)$/;
+
+// Whether `index` starts a statement that runs unconditionally when the script loads: not inside a
+// function, block, condition, string or comment, and not the body of an unbraced if/else.
+// A rough scan that ignores regex literals, which is fine for the short redirect stubs this targets.
+function isTopLevelStatement(code: string, index: number): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  let lineComment = false;
+  let blockComment = false;
+  let statementHasCode = false;
+  let lastCode = '';
+  
+  for (let i = 0; i < index; i++) {
+    const char = code[i];
+    const next = code[i + 1];
+    
+    if (lineComment) {
+      if (char === '\n') lineComment = false;
+      else continue;
+    } else if (blockComment) {
+      if (char === '*' && next === '/') {
+        blockComment = false;
+        i++;
+      }
+      continue;
+    } else if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    
+    if (char === '/' && next === '/') {
+      lineComment = true;
+      i++;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      blockComment = true;
+      i++;
+      continue;
+    }
+    
+    if (char === '\n') {
+      if (depth === 0 && STATEMENT_END.test(lastCode.slice(-1)) && !OPEN_KEYWORD.test(lastCode)) {
+        statementHasCode = false;
+      }
+      continue;
+    }
+    if (/\s/.test(char)) continue;
+    
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{' || char === '(' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ')' || char === ']') {
+      depth = Math.max(0, depth - 1);
+    }
+    
+    if (depth === 0 && (char === ';' || char === '}')) {
+      statementHasCode = false;
+      lastCode = '';
+    } else {
+      statementHasCode = true;
+      lastCode = (lastCode + char).slice(-8);
+    }
+  }
+  
+  return depth === 0 && !quote && !lineComment && !blockComment && !statementHasCode;
+}
+
+const INTERSTITIAL_TEXT = /you are being redirected|you will be redirected|redirecting you|if you are not redirected|click here if you are not redirected|leaving (?:this site|our website)/i;
+
+function resolveRedirectTarget(value: string, baseUrl: string): string | null {
+  try {
+    const target = new URL(value.trim(), baseUrl);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return null;
+    }
+    // Reloading itself (or jumping to an anchor) isn't going anywhere
+    target.hash = '';
+    const base = new URL(baseUrl);
+    base.hash = '';
+    return target.href === base.href ? null : target.href;
+  } catch {
+    return null;
+  }
+}
+
+function detectClientRedirect(doc: Document, url: string): ClientRedirect | null {
+  const baseHref = doc.querySelector('base[href]')?.getAttribute('href');
+  const baseUrl = (baseHref && resolveRedirectTarget(baseHref, url)) || url;
+  
+  // <meta http-equiv="refresh" content="5; url=https://...">
+  const refresh = Array.from(doc.querySelectorAll('meta[http-equiv]'))
+    .find(meta => meta.getAttribute('http-equiv')?.toLowerCase() === 'refresh');
+  const refreshMatch = refresh?.getAttribute('content')?.match(/^\s*(\d+(?:\.\d+)?)?\s*[;,]\s*(?:url\s*=\s*)?(.+)$/i);
+  if (refreshMatch) {
+    const target = resolveRedirectTarget(refreshMatch[2].replace(/^['"]|['"]\s*$/g, ''), baseUrl);
+    if (target) {
+      return { kind: 'meta-refresh', target, delay: refreshMatch[1] ? parseFloat(refreshMatch[1]) : 0 };
+    }
+  }
+  
+  // Inline scripts that assign window.location or call location.replace() as a top-level
+  // statement; the same text in a handler, a branch or a string literal may never run
+  const inlineScripts = Array.from(doc.querySelectorAll('script:not([src])')).slice(0, 20);
+  for (const script of inlineScripts) {
+    const code = script.textContent || '';
+    for (const pattern of SCRIPT_REDIRECT_PATTERNS) {
+      for (const match of code.matchAll(pattern)) {
+        const target = isTopLevelStatement(code, match.index ?? 0) ? resolveRedirectTarget(match[2], baseUrl) : null;
+        if (target) {
+          return { kind: 'script', target };
+        }
+      }
+    }
+  }
+  
+  // "You are being redirected" pages whose only way out is a link to another site
+  const bodyText = doc.body?.textContent || '';
+  if (bodyText.length < 5000 && INTERSTITIAL_TEXT.test(bodyText)) {
+    const host = new URL(url).hostname;
+    for (const anchor of Array.from(doc.querySelectorAll('a[href]'))) {
+      const target = resolveRedirectTarget(anchor.getAttribute('href') || '', baseUrl);
+      if (target && new URL(target).hostname !== host) {
+        return { kind: 'interstitial', target };
+      }
+    }
+  }
+  
+  return null;
+}
+
+function parseHTML(html: string, url: string): { excerpt: string; redirect: ClientRedirect | null } {
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
   
@@ -76,7 +224,10 @@ function parseHTML(html: string, url: string): string {
     parts.push(`Key Points:\n${listItems.map(item => `• ${item}`).join('\n')}`);
   }
   
-  return parts.join('\n\n');
+  return {
+    excerpt: parts.join('\n\n'),
+    redirect: detectClientRedirect(doc, url),
+  };
 }
 
 interface PDFParseResult {
@@ -128,8 +279,8 @@ async function parsePDF(arrayBuffer: ArrayBuffer): Promise<PDFParseResult> {
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'parseHTML') {
     try {
-      const excerpt = parseHTML(message.html, message.url);
-      sendResponse({ success: true, excerpt });
+      const { excerpt, redirect } = parseHTML(message.html, message.url);
+      sendResponse({ success: true, excerpt, redirect });
     } catch (error) {
       sendResponse({ 
         success: false, 
@@ -0,0 +1,125 @@
+// Bundled reference data for typosquatting detection in background.ts.
+// Keep entries as registrable domains (no subdomains).
+
+// Widely impersonated sites; lookalikes are measured against these
+export const POPULAR_DOMAINS: string[] = [
+  'google.com', 'youtube.com', 'gmail.com', 'facebook.com', 'instagram.com', 'whatsapp.com',
+  'messenger.com', 'twitter.com', 'linkedin.com', 'tiktok.com', 'snapchat.com', 'pinterest.com',
+  'reddit.com', 'tumblr.com', 'discord.com', 'telegram.org', 'signal.org', 'twitch.tv',
+  'microsoft.com', 'microsoftonline.com', 'office.com', 'office365.com', 'outlook.com', 'live.com',
+  'hotmail.com', 'onedrive.com', 'sharepoint.com', 'xbox.com', 'bing.com', 'skype.com',
+  'apple.com', 'icloud.com', 'amazon.com', 'amazon.co.uk', 'netflix.com', 'primevideo.com',
+  'spotify.com', 'hulu.com', 'disneyplus.com', 'yahoo.com', 'aol.com', 'protonmail.com',
+  'proton.me', 'zoho.com', 'dropbox.com', 'box.com', 'wetransfer.com', 'docusign.com',
+  'adobe.com', 'zoom.us', 'slack.com', 'salesforce.com', 'atlassian.com', 'github.com',
+  'gitlab.com', 'bitbucket.org', 'stackoverflow.com', 'npmjs.com', 'cloudflare.com', 'godaddy.com',
+  'namecheap.com', 'wordpress.com', 'shopify.com', 'wix.com', 'squarespace.com', 'paypal.com',
+  'stripe.com', 'venmo.com', 'cash.app', 'wise.com', 'revolut.com', 'coinbase.com',
+  'binance.com', 'kraken.com', 'blockchain.com', 'metamask.io', 'opensea.io', 'ledger.com',
+  'trezor.io', 'chase.com', 'bankofamerica.com', 'wellsfargo.com', 'citibank.com', 'capitalone.com',
+  'americanexpress.com', 'discover.com', 'usbank.com', 'hsbc.com', 'barclays.co.uk', 'lloydsbank.com',
+  'santander.com', 'natwest.com', 'visa.com', 'mastercard.com', 'ebay.com', 'walmart.com',
+  'target.com', 'bestbuy.com', 'costco.com', 'etsy.com', 'alibaba.com', 'aliexpress.com',
+  'temu.com', 'booking.com', 'airbnb.com', 'expedia.com', 'tripadvisor.com', 'uber.com',
+  'lyft.com', 'doordash.com', 'dhl.com', 'fedex.com', 'ups.com', 'usps.com',
+  'irs.gov', 'steampowered.com', 'steamcommunity.com', 'epicgames.com', 'roblox.com', 'playstation.com',
+  'nintendo.com', 'ea.com', 'blizzard.com', 'samsung.com', 'nvidia.com', 'intel.com',
+  'oracle.com', 'ibm.com', 'okta.com', 'duosecurity.com', 'norton.com', 'mcafee.com',
+  'wikipedia.org', 'mozilla.org', 'medium.com', 'quora.com', 'imdb.com', 'nytimes.com',
+  'cnn.com', 'bbc.co.uk', 'bbc.com', 'openai.com', 'chatgpt.com', 'baidu.com',
+  'yandex.ru', 'naver.com', 'vk.com', 'mail.ru',
+];
+
+// Distinctive brand names mapped to their official domain. A brand showing up in someone
+// else's subdomain or hyphenated name (paypal.secure-login.xyz, google-login.com) is a red flag.
+// Generic words (live, office, chase, visa...) are left out on purpose: too many false alarms.
+export const BRAND_KEYWORDS: Record<string, string> = {
+  google: 'google.com',
+  youtube: 'youtube.com',
+  gmail: 'gmail.com',
+  facebook: 'facebook.com',
+  instagram: 'instagram.com',
+  whatsapp: 'whatsapp.com',
+  linkedin: 'linkedin.com',
+  tiktok: 'tiktok.com',
+  snapchat: 'snapchat.com',
+  discord: 'discord.com',
+  telegram: 'telegram.org',
+  microsoft: 'microsoft.com',
+  office365: 'office365.com',
+  outlook: 'outlook.com',
+  onedrive: 'onedrive.com',
+  sharepoint: 'sharepoint.com',
+  hotmail: 'hotmail.com',
+  icloud: 'icloud.com',
+  apple: 'apple.com',
+  amazon: 'amazon.com',
+  netflix: 'netflix.com',
+  spotify: 'spotify.com',
+  yahoo: 'yahoo.com',
+  dropbox: 'dropbox.com',
+  docusign: 'docusign.com',
+  wetransfer: 'wetransfer.com',
+  adobe: 'adobe.com',
+  github: 'github.com',
+  paypal: 'paypal.com',
+  venmo: 'venmo.com',
+  revolut: 'revolut.com',
+  coinbase: 'coinbase.com',
+  binance: 'binance.com',
+  metamask: 'metamask.io',
+  opensea: 'opensea.io',
+  bankofamerica: 'bankofamerica.com',
+  wellsfargo: 'wellsfargo.com',
+  citibank: 'citibank.com',
+  capitalone: 'capitalone.com',
+  americanexpress: 'americanexpress.com',
+  barclays: 'barclays.co.uk',
+  santander: 'santander.com',
+  mastercard: 'mastercard.com',
+  ebay: 'ebay.com',
+  walmart: 'walmart.com',
+  aliexpress: 'aliexpress.com',
+  airbnb: 'airbnb.com',
+  fedex: 'fedex.com',
+  steamcommunity: 'steamcommunity.com',
+  steampowered: 'steampowered.com',
+  roblox: 'roblox.com',
+  epicgames: 'epicgames.com',
+  playstation: 'playstation.com',
+  samsung: 'samsung.com',
+  okta: 'okta.com',
+};
+
+// Infrastructure the brands above run under other names. These carry brand names in
+// their labels or subdomains (google-analytics.com, youtube.googleapis.com) legitimately.
+// Only domains where the brand names every host; user-named hosting (s3.amazonaws.com,
+// googleusercontent.com, azureedge.net) stays out.
+export const FIRST_PARTY_DOMAINS: string[] = [
+  'googleapis.com', 'google-analytics.com', 'googletagmanager.com', 'googlesyndication.com',
+  'googleadservices.com', 'googlevideo.com', 'gstatic.com', 'doubleclick.net',
+  'youtube-nocookie.com', 'ytimg.com', 'ggpht.com',
+  'fbcdn.net', 'facebook.net', 'fb.com', 'cdninstagram.com', 'whatsapp.net',
+  'microsoft365.com', 'msauth.net', 'msftauth.net', 'office.net',
+  'apple-cloudkit.com', 'icloud-content.com', 'mzstatic.com', 'cdn-apple.com',
+  'media-amazon.com', 'ssl-images-amazon.com', 'amazon-adsystem.com',
+  'nflxvideo.net', 'nflximg.net', 'spotifycdn.com', 'scdn.co', 'yimg.com',
+  'dropboxusercontent.com', 'adobelogin.com', 'githubassets.com',
+  'paypalobjects.com', 'paypal-community.com', 'ebaystatic.com', 'steamstatic.com',
+  'rbxcdn.com', 'discordapp.com', 'discordapp.net', 'licdn.com', 'tiktokcdn.com',
+];
+
+// Characters and sequences that read alike, folded to one canonical form
+export const LOOKALIKE_SUBSTITUTIONS: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+  [/[1i|!]/g, 'l'],
+  [/0/g, 'o'],
+  [/3/g, 'e'],
+  [/4|@/g, 'a'],
+  [/5|\$/g, 's'],
+  [/7/g, 't'],
+  [/8/g, 'b'],
+  [/9/g, 'g'],
+];
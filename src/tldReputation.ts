@@ -0,0 +1,66 @@
+// Bundled TLD reputation table for the risky-TLD signal in background.ts.
+// `weight` is added to the risk score for links on that TLD; unlisted TLDs add nothing.
+// Drawn from public abuse rankings (Spamhaus, Interisle phishing reports), so revisit it
+// when those shift rather than treating it as fixed.
+
+export interface TldReputation {
+  weight: number;
+  note: string; // shown in the signal reason
+}
+
+export const TLD_REPUTATION: Record<string, TldReputation> = {
+  // Read as file names in link text ("invoice.zip")
+  zip: { weight: 30, note: 'looks like a file name' },
+  mov: { weight: 30, note: 'looks like a file name' },
+
+  // Former free registrations, still dominated by abuse
+  tk: { weight: 25, note: 'formerly free, heavily abused' },
+  ml: { weight: 25, note: 'formerly free, heavily abused' },
+  ga: { weight: 25, note: 'formerly free, heavily abused' },
+  cf: { weight: 25, note: 'formerly free, heavily abused' },
+  gq: { weight: 25, note: 'formerly free, heavily abused' },
+
+  // Cheap bulk registrations with high phishing and spam rates
+  top: { weight: 20, note: 'frequently abused' },
+  xyz: { weight: 15, note: 'frequently abused' },
+  icu: { weight: 20, note: 'frequently abused' },
+  cyou: { weight: 20, note: 'frequently abused' },
+  buzz: { weight: 20, note: 'frequently abused' },
+  rest: { weight: 20, note: 'frequently abused' },
+  cfd: { weight: 20, note: 'frequently abused' },
+  sbs: { weight: 20, note: 'frequently abused' },
+  bond: { weight: 20, note: 'frequently abused' },
+  monster: { weight: 20, note: 'frequently abused' },
+  quest: { weight: 15, note: 'frequently abused' },
+  click: { weight: 20, note: 'frequently abused' },
+  link: { weight: 15, note: 'frequently abused' },
+  country: { weight: 20, note: 'frequently abused' },
+  stream: { weight: 15, note: 'frequently abused' },
+  download: { weight: 20, note: 'frequently abused' },
+  gdn: { weight: 20, note: 'frequently abused' },
+  work: { weight: 15, note: 'frequently abused' },
+  support: { weight: 15, note: 'frequently abused' },
+  loan: { weight: 20, note: 'frequently abused' },
+  win: { weight: 20, note: 'frequently abused' },
+  bid: { weight: 20, note: 'frequently abused' },
+  men: { weight: 20, note: 'frequently abused' },
+  date: { weight: 15, note: 'frequently abused' },
+  faith: { weight: 15, note: 'frequently abused' },
+  review: { weight: 15, note: 'frequently abused' },
+  racing: { weight: 15, note: 'frequently abused' },
+  party: { weight: 15, note: 'frequently abused' },
+  science: { weight: 15, note: 'frequently abused' },
+  accountant: { weight: 15, note: 'frequently abused' },
+  cricket: { weight: 15, note: 'frequently abused' },
+  lol: { weight: 10, note: 'frequently abused' },
+  mom: { weight: 10, note: 'frequently abused' },
+  kim: { weight: 10, note: 'frequently abused' },
+  bar: { weight: 10, note: 'frequently abused' },
+  live: { weight: 10, note: 'frequently abused' },
+  online: { weight: 10, note: 'frequently abused' },
+  site: { weight: 10, note: 'frequently abused' },
+  website: { weight: 10, note: 'frequently abused' },
+  shop: { weight: 10, note: 'frequently abused' },
+  fun: { weight: 10, note: 'frequently abused' },
+  su: { weight: 15, note: 'legacy ccTLD, frequently abused' },
+};